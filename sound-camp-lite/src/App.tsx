@@ -5,45 +5,174 @@ import {
   TILE,
   START_MONEY,
   ITEM_DEFS,
-  GEN_CAPACITY,
-  GEN_BASE_FUEL_DRAIN,
-  GEN_FUEL_PER_POWER,
-  WIRE_BASE_COST,
-  WIRE_COST_PER_TILE,
+  REFUEL_AMOUNT,
+  FUEL_TOWN_MARKUP,
+  AMENITY_SLOTS,
+  DEPOT_CAPACITY,
+  FUEL_ORDER_SIZES,
+  AUTO_REFUEL_LEVELS,
+  TRIP_HAZARD_VIBE,
+  CONGESTION_VIBE,
+  CABLE_GAUGES,
+  BROWNOUT_AT,
 } from "./game/constants";
 import {
   clamp,
   scoreAll,
   vibeToTier,
   pxToTile,
-  nextRot,
   canPlace,
-  cryptoRandomId,
-  computePowerFromWires,
-  computeVibeField,
+  newId,
+  computePower,
+  breakerOverload,
+  type PowerFeed,
 } from "./game/logic";
-import type { PlacedItem, ItemKey, Wire } from "./game/types";
+import type {
+  CableGauge,
+  PlacedItem,
+  ItemKey,
+  NeighbourZone,
+  PowerModel,
+  Tile,
+  Walkway,
+  Wire,
+} from "./game/types";
 import { audioEngine } from "./game/audio";
+import {
+  drawBoard,
+  drawCablePath,
+  drawItem,
+  drawNeighbours,
+  drawNoiseMap,
+  drawRect,
+  drawTripHazards,
+  drawCongestion,
+  renderThumbnail,
+} from "./ui/draw";
+import { SaveBrowser } from "./ui/SaveBrowser";
+import { HistoryPanel } from "./ui/HistoryPanel";
+import { ModsPanel } from "./ui/ModsPanel";
+import { NeighboursPanel } from "./ui/NeighboursPanel";
+import { CrowdPanel } from "./ui/CrowdPanel";
+import { AttendancePanel } from "./ui/AttendancePanel";
+import { FinancePanel } from "./ui/FinancePanel";
+import { IncidentLog } from "./ui/IncidentLog";
+import { EnergyGraph, type EnergySample } from "./ui/EnergyGraph";
+import { styles } from "./ui/styles";
+import { fmtClock } from "./ui/format";
 import {
   makeState,
   saveAuto,
   loadAuto,
+  loadInstalledMods,
   saveNamed,
   loadNamed,
-  listSaves,
+  restoreSession,
+  savesPersist,
+  SaveQuotaError,
+  type GameState,
 } from "./game/storage";
+import {
+  decodeShareCode,
+  encodeShareCode,
+  parseSaveFile,
+  saveFileName,
+  SaveImportError,
+} from "./game/transfer";
 import { defaultGoals, isPast, type Goal } from "./game/milestones";
+import {
+  initialSimState,
+  scoreOptions,
+  simulateStep,
+  SIM_DT,
+  type SimEvent,
+  type SimState,
+} from "./game/sim";
+import {
+  applyCommand,
+  describeCommand,
+  isUndoable,
+  type Command,
+} from "./game/commands";
+import {
+  emptyHistory,
+  moveCursor,
+  pushHistory,
+  restoreTo,
+  snapshotOf,
+  undoBlocker,
+  type History,
+} from "./game/history";
+import {
+  beginPlayback,
+  finishRecording,
+  outcomeOf,
+  parseReplay,
+  recordCommand,
+  startRecording,
+  takeDueEntries,
+  type ReplayLog,
+} from "./game/replay";
+import { rng, randomSeed } from "./game/rng";
+import { hasTag, isGenerator, missingCatalogs, registerCatalog } from "./game/catalog";
+import { isPowerNode, isRunning, type PowerNetwork } from "./game/powerGraph";
+import {
+  batteryStorage,
+  burnsFuel,
+  isBattery,
+  isSolar,
+  ratedCapacity,
+  sourceCapacity,
+  sunFactor,
+} from "./game/energy";
+import { depotSpace, depotStock, fuelPrice, isDepot, orderCost, type FuelOrder } from "./game/fuel";
+import { isVendor, restockCost, salePrice, stockMax, vendorOpen } from "./game/vendors";
+import {
+  dayIncome,
+  dayNet,
+  daySpend,
+  initialLedger,
+  pnlCsv,
+  transactionsCsv,
+  type Ledger,
+  type Transaction,
+} from "./game/ledger";
+import { crossesTile, routeCable, tripHazards, waypointSlot } from "./game/routing";
+import { scoreItems, type ItemScore } from "./game/rules";
+import { boundaryLevels, computeNoiseField } from "./game/noise";
+import { initialComplaints, type ComplaintState } from "./game/complaints";
+import { atTarget, bottlenecks, isGate, isSatisfied, type Population } from "./game/crowd";
+
+const ENERGY_LOG_SAMPLES = 48; // one in-game day of half-hour readings
+
+const POWER_MODEL_INFO: Record<PowerModel, { label: string; hint: string }> = {
+  wired: { label: "Wired", hint: "Only cabled devices get power." },
+  radius: { label: "Radius", hint: "Generators power anything within range; no cables." },
+  hybrid: { label: "Hybrid", hint: "Cables first, then spare capacity reaches devices in range." },
+};
 
-type Agent = { x: number; y: number; vx: number; vy: number };
+// A new run's engine state, its crowd drawing from the session seed
+const freshSimState = () => initialSimState(rng.stream("agents").int(0, 0x7fffffff));
+
+// ?seed=123 starts a reproducible run (handy for bug reports): applied before
+// the first engine state is built so the crowd follows it too
+function startSession(): SimState {
+  const q = new URLSearchParams(window.location.search).get("seed");
+  if (q != null && Number.isFinite(Number(q))) rng.reseed(Number(q));
+  return freshSimState();
+}
 
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [startSim] = useState(startSession);
 
   // Core game state
-  const [items, setItems] = useState<PlacedItem[]>([]);
+  const [items, setItems] = useState<PlacedItem[]>(startSim.items);
   const [wires, setWires] = useState<Wire[]>([]);
   const [selected, setSelected] = useState<string | null>(null);
   const [palette, setPalette] = useState<ItemKey>("speaker_s");
+  // Bumped when mods are loaded/removed so the palette re-reads ITEM_DEFS
+  const [, setCatalogRev] = useState(0);
   const [money, setMoney] = useState<number>(START_MONEY);
 
   // UI + hover
@@ -57,7 +186,9 @@ export default function App() {
   const [vibe, setVibe] = useState(0);
   const [noise, setNoise] = useState(0);
   const [crowd, setCrowd] = useState(0);
-  const crowdTargetRef = useRef(0);
+  const [population, setPopulation] = useState<Population>(startSim.population);
+  const [ticketPrice, setTicketPrice] = useState(startSim.ticketPrice);
+  const [ledger, setLedger] = useState<Ledger>(initialLedger);
 
   // Time + run state
   const [dayNum, setDayNum] = useState(1);
@@ -66,18 +197,69 @@ export default function App() {
 
   // Goals / milestones
   const [goals, setGoals] = useState<Goal[]>(defaultGoals());
+  const [neighbours, setNeighbours] = useState<NeighbourZone[]>(
+    startSim.neighbours
+  );
+  const [showNoiseMap, setShowNoiseMap] = useState(false);
+  const [complaints, setComplaints] = useState<ComplaintState>(initialComplaints);
+  const [powerModel, setPowerModel] = useState<PowerModel>("wired");
+  const [walkways, setWalkways] = useState<Walkway[]>(startSim.walkways);
+  const [fuelOrders, setFuelOrders] = useState<FuelOrder[]>([]);
+  // Per-source energy readings for the inspector graph (UI only, not saved)
+  const [energyLog, setEnergyLog] = useState<Record<string, EnergySample[]>>({});
+  // Waypoint being dragged on a cable (see onCanvasMouseDown)
+  const [cableDrag, setCableDrag] = useState<{
+    wireId: string;
+    index: number;     // waypoint slot being moved or inserted
+    existing: boolean; // moving a waypoint rather than adding one
+    start: Tile;
+    at: Tile;
+  } | null>(null);
+  const dragMovedRef = useRef(false);
   const [toast, setToast] = useState<string | null>(null);
 
   // Wires connect mode
-  const [connectFromGenId, setConnectFromGenId] = useState<string | null>(null);
-
-  // Undo stack
-  const undoStack = useRef<PlacedItem[][]>([]);
+  const [connectFromId, setConnectFromId] = useState<string | null>(null);
+  const [cableGauge, setCableGauge] = useState<CableGauge>("thin"); // for new cables
+
+  // Undo/redo history (items, wires, money, generator state)
+  const [history, setHistory] = useState<History>(emptyHistory());
+  const historyRef = useRef<History>(history);
+  function commitHistory(h: History) {
+    historyRef.current = h;
+    setHistory(h);
+  }
 
-  // Crowd agents + sim time
-  const agentsRef = useRef<Agent[]>([]);
+  // Sim time
   const simTimeRef = useRef(0);
 
+  // Engine state is the source of truth; React state mirrors it for rendering
+  const simRef = useRef<SimState>(startSim);
+  function commitSim(next: SimState) {
+    simRef.current = next;
+    setItems(next.items);
+    setWires(next.wires);
+    setMoney(next.money);
+    setCrowd(next.crowd);
+    setDayNum(next.dayNum);
+    setTimeMin(next.timeMin);
+    setGoals(next.goals);
+    setNeighbours(next.neighbours);
+    setComplaints(next.complaints);
+    setPowerModel(next.powerModel);
+    setWalkways(next.walkways);
+    setFuelOrders(next.fuelOrders);
+    setPopulation(next.population);
+    setTicketPrice(next.ticketPrice);
+    setLedger(next.ledger);
+  }
+
+  // Replay recording / playback
+  const recordingRef = useRef<ReplayLog | null>(null);
+  const [recording, setRecording] = useState(false);
+  const playbackRef = useRef<{ log: ReplayLog; next: number } | null>(null);
+  const [playingBack, setPlayingBack] = useState(false);
+
   //Check distance of one tile to another
   function tileDist(ax: number, ay: number, bx: number, by: number) {
     return Math.hypot(ax - bx, ay - by);
@@ -96,8 +278,8 @@ export default function App() {
 
   // Power + scoring
   const powerResult = useMemo(
-    () => computePowerFromWires(items, wires),
-    [items, wires]
+    () => computePower(items, wires, powerModel, timeMin),
+    [items, wires, powerModel, timeMin]
   );
   const powerMap = powerResult.powerMap;
   const genLoads = powerResult.genLoads;
@@ -105,22 +287,47 @@ export default function App() {
     genLoadsRef.current = genLoads;
   }, [genLoads]);
 
-  const vibeField = useMemo(
-    () => computeVibeField(items, powerMap),
-    [items, powerMap]
+  // Curfew limiter, brownouts, trip hazards and bottlenecks, same as the engine applies
+  const scoreOpts = useMemo(
+    () => scoreOptions({ complaints, wires, walkways, population }, powerResult.supply),
+    [complaints, wires, walkways, population, powerResult]
+  );
+  const boundary = useMemo(
+    () => boundaryLevels(items, powerMap, neighbours, scoreOpts),
+    [items, powerMap, neighbours, scoreOpts]
   );
+  const noiseField = useMemo(
+    () => (showNoiseMap ? computeNoiseField(items, powerMap, scoreOpts) : null),
+    [items, powerMap, showNoiseMap, scoreOpts]
+  );
+  const hazards = useMemo(() => tripHazards(wires, walkways), [wires, walkways]);
+  const jams = useMemo(() => bottlenecks(population).length, [population]);
   const scoring = useMemo(
-    () => scoreAll(items, powerMap),
-    [items, powerMap]
+    () => scoreAll(items, powerMap, scoreOpts),
+    [items, powerMap, scoreOpts]
+  );
+  // Route preview while a cable waypoint is being dragged
+  const dragPreview = useMemo(() => {
+    if (!cableDrag) return null;
+    const w = wires.find((x) => x.id === cableDrag.wireId);
+    const from = items.find((i) => i.id === w?.fromId);
+    const to = items.find((i) => i.id === w?.toId);
+    if (!w || !from || !to) return null;
+    const waypoints = [...w.waypoints];
+    waypoints.splice(cableDrag.index, cableDrag.existing ? 1 : 0, cableDrag.at);
+    return { waypoints, path: routeCable(items, walkways, from, to, waypoints) };
+  }, [cableDrag, wires, items, walkways]);
+  // Per-item rule breakdown for the inspector
+  const itemScores = useMemo(
+    () => scoreItems(items, powerMap, scoreOpts),
+    [items, powerMap, scoreOpts]
   );
   const musicLevel = useMemo(() => {
     const decks = items.filter(
-      (i) => i.defKey === "deck" && (powerMap[i.y]?.[i.x] ?? false)
+      (i) => hasTag(i.defKey, "deck") && (powerMap[i.y]?.[i.x] ?? false)
     );
     const speakers = items.filter(
-      (i) =>
-      (i.defKey === "speaker_s" || i.defKey === "speaker_l") &&
-      (powerMap[i.y]?.[i.x] ?? false)
+      (i) => hasTag(i.defKey, "speaker") && (powerMap[i.y]?.[i.x] ?? false)
     );
     if (decks.length === 0 || speakers.length === 0) return 0;
 
@@ -131,7 +338,7 @@ export default function App() {
       );
       if (!nearDeck) continue;
       //large speakers count more
-      score += s.defKey === "speaker_l" ? 2 : 1;
+      score += hasTag(s.defKey, "large") ? 2 : 1;
     }
     return score;
   }, [items, powerMap]);
@@ -142,9 +349,32 @@ export default function App() {
     powerMapRef.current = powerMap;
   }, [powerMap]);
 
+  // Energy flow: sample every source each half in-game hour; a jump back in
+  // time (new game, load, replay) starts the log over
+  const energySlot = (dayNum - 1) * 48 + Math.floor(timeMin / 30);
+  useEffect(() => {
+    setEnergyLog((log) => {
+      const next: Record<string, EnergySample[]> = {};
+      for (const g of items) {
+        if (!isGenerator(g.defKey)) continue;
+        const prev = (log[g.id] ?? []).filter((smp) => smp.slot < energySlot);
+        const on = isRunning(g);
+        prev.push({
+          slot: energySlot,
+          out: genLoads[g.id] ?? 0,
+          cap: on ? sourceCapacity(g, timeMin) : 0,
+          charge: isBattery(g.defKey) ? g.charge ?? 0 : undefined,
+          charging: powerResult.charging[g.id],
+        });
+        next[g.id] = prev.slice(-ENERGY_LOG_SAMPLES);
+      }
+      return next;
+    });
+  }, [energySlot]);
+
   // Feed generator state to audio hummmmmmmmm
   useEffect(() => {
-    const gens = items.filter((i) => i.defKey === "genny");
+    const gens = items.filter((i) => burnsFuel(i.defKey)); // solar and batteries are silent
     const running = gens.filter((g) => g.on);
 
     if (running.length === 0) {
@@ -168,12 +398,11 @@ export default function App() {
   useEffect(() => {
     setVibe(scoring.vibe);
     setNoise(scoring.noise);
-    crowdTargetRef.current = clamp(scoring.vibe * 4, 0, 500);
     try {
       audioEngine.updateAmbient({
         vibe: scoring.vibe,
         noise: scoring.noise,
-        crowd: crowdTargetRef.current,
+        crowd: crowdRef.current,
         musicLevel,
       });
     } catch {
@@ -181,76 +410,155 @@ export default function App() {
     }
   }, [scoring, musicLevel]);
 
-  // Festival clock display
-  function fmtClock(mins: number) {
-    const m = Math.floor(mins % 60);
-    const h = Math.floor((mins / 60) % 24);
-    const z = (n: number) => (n < 10 ? "0" + n : "" + n);
-    return `${z(h)}:${z(m)}`;
-  }
-
   // Autosave
   const saveTimer = useRef<number | null>(null);
+  const resumeCheckedRef = useRef(false); // don't overwrite before resume prompt
+  const quotaWarnedRef = useRef(false);
   function queueAutosave() {
-    if (saveTimer.current) window.clearTimeout(saveTimer.current);
+    // Throttle rather than debounce: while running, state changes every
+    // frame and a debounce would never fire
+    if (saveTimer.current || !resumeCheckedRef.current) return;
     saveTimer.current = window.setTimeout(() => {
-      saveAuto(makeState(money, items, wires));
       saveTimer.current = null;
+      saveAuto(makeState(simRef.current)).catch((err) => {
+        if (!(err instanceof SaveQuotaError) || quotaWarnedRef.current) return;
+        quotaWarnedRef.current = true;
+        setToast("⚠ Storage full — autosave paused. Export your session to keep it.");
+      });
     }, 300);
   }
   useEffect(() => {
     queueAutosave();
-  }, [items, money, wires]);
+  }, [items, money, wires, dayNum, timeMin, goals]);
 
-  // Resume last session once
+  // Installed mods first (saves may use their items), then resume once
   useEffect(() => {
-    if (sessionStorage.getItem("scb:resumePrompted") === "1") return;
-    sessionStorage.setItem("scb:resumePrompted", "1");
-    const s = loadAuto();
-    if (!s) return;
-    if (confirm("Resume your last session?")) {
-      setItems(s.items);
-      setMoney(s.money);
-      setWires(s.wires ?? []);
-      alert("Session restored.");
+    async function start() {
+      for (const mod of await loadInstalledMods()) {
+        try {
+          registerCatalog(mod);
+        } catch {/* clashes with another mod; skip it */}
+      }
+      setCatalogRev((r) => r + 1);
+
+      // Every kind of browser storage is blocked: saves only last this visit
+      if (!(await savesPersist())) {
+        setToast("⚠️ Browser storage is blocked — saves will be lost when this tab closes or reloads.");
+      }
+
+      if (sessionStorage.getItem("scb:resumePrompted") === "1") return;
+      sessionStorage.setItem("scb:resumePrompted", "1");
+      const s = await loadAuto();
+      if (s && catalogProblem(s) == null && confirm("Resume your last session?")) {
+        commitSim(restoreSession(s));
+        alert("Session restored.");
+      }
     }
+    start().finally(() => {
+      resumeCheckedRef.current = true;
+    });
   }, []);
 
-  function doManualSave() {
-    const name = prompt("Save name:");
-    if (!name) return;
-    saveNamed(name, makeState(money, items, wires));
-    alert(`Saved as "${name}".`);
+  // Why a save can't be loaded with the items installed right now (or null)
+  function catalogProblem(s: GameState): string | null {
+    if (s.items.every((it) => it.defKey in ITEM_DEFS)) return null;
+    const needs = missingCatalogs(s.catalog);
+    return needs.length
+      ? `This save needs mods that aren't installed: ${needs.join(", ")}.`
+      : "This save uses items that no longer exist.";
   }
-  function doManualLoad() {
-    const saves = listSaves();
-    if (saves.length === 0) {
-      alert("No manual saves yet.");
-      return;
+
+  function onCatalogChange(message: string) {
+    setCatalogRev((r) => r + 1);
+    if (!(palette in ITEM_DEFS)) setPalette("speaker_s");
+    setToast(message);
+  }
+
+  // Save browser (named slots with metadata + thumbnails)
+  const [showSaves, setShowSaves] = useState(false);
+  async function saveCurrentAs(name: string) {
+    await saveNamed(name, makeState(simRef.current), {
+      vibe,
+      thumbnail: renderThumbnail(items, wires, powerMap, powerModel, walkways),
+    });
+    setToast(`💾 Saved "${name}"`);
+  }
+  // Never rejects: a failed read or a corrupt slot is reported like any
+  // rejected command
+  async function loadSlot(name: string) {
+    try {
+      const chosen = await loadNamed(name);
+      if (!chosen) {
+        alert("Save not found or incompatible.");
+        return;
+      }
+      const problem = catalogProblem(chosen);
+      if (problem) {
+        alert(problem);
+        return;
+      }
+      loadSession(chosen);
+      setShowSaves(false);
+    } catch (err) {
+      alert(`Couldn't load "${name}": ${err instanceof Error ? err.message : "the save couldn't be read."}`);
     }
-    const line = saves
-      .map(
-        (s, i) => `${i + 1}. ${s.name} — ${new Date(s.ts).toLocaleString()}`
-      )
-      .join("\n");
-    const pick = prompt(
-      `Load which save?\n${line}\n\nEnter number (1-${saves.length}):`
-    );
-    if (!pick) return;
-    const idx = Number(pick) - 1;
-    if (Number.isNaN(idx) || idx < 0 || idx >= saves.length) {
-      alert("Invalid choice.");
-      return;
+  }
+
+  // Replace the whole session with a loaded/imported save
+  function loadSession(s: GameState) {
+    recordingRef.current = null;
+    playbackRef.current = null;
+    setRecording(false);
+    setPlayingBack(false);
+    commitSim(restoreSession(s));
+    commitHistory(emptyHistory());
+    setRunning(false);
+    setSelected(null);
+    setConnectFromId(null);
+  }
+
+  function importErrorText(err: unknown) {
+    return err instanceof SaveImportError
+      ? err.message
+      : "Something went wrong reading that.";
+  }
+
+  // Portable save files
+  function doExport() {
+    const name = prompt("Export as:", "my-sound-camp");
+    if (name == null) return;
+    downloadJson(makeState(simRef.current), saveFileName(name));
+  }
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  async function doImportFile(file: File) {
+    try {
+      loadSession(parseSaveFile(await file.text()));
+      setToast(`📂 Imported ${file.name}`);
+    } catch (err) {
+      alert(`Import failed: ${importErrorText(err)}`);
     }
-    const chosen = loadNamed(saves[idx].name);
-    if (!chosen) {
-      alert("Save not found or incompatible.");
-      return;
+  }
+
+  // Share codes (layout only)
+  async function doShareCode() {
+    const code = await encodeShareCode(items, wires);
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch {/* clipboard may be blocked; the prompt still shows it */}
+    prompt("Share code (copied to clipboard):", code);
+  }
+  async function doPasteCode() {
+    const code = prompt("Paste a share code:");
+    if (!code) return;
+    try {
+      const layout = await decodeShareCode(code, simRef.current.walkways);
+      if (!dispatch({ type: "pasteLayout", ...layout })) return;
+      commitHistory(emptyHistory());
+      setSelected(null);
+      setToast(`🔗 Layout loaded (${layout.items.length} items)`);
+    } catch (err) {
+      alert(`Couldn't load code: ${importErrorText(err)}`);
     }
-    setItems(chosen.items);
-    setMoney(chosen.money);
-    setWires(chosen.wires ?? []);
-    setSelected(null);
   }
 
   // Item stats used in left card
@@ -265,27 +573,41 @@ export default function App() {
       .join(" • ");
   }
 
-  // Build snapshot for goals
-  function buildSnapshot() {
-    const built: Record<string, number> = {};
-    const powered: Record<string, number> = {};
-    for (const it of items) {
-      built[it.defKey] = (built[it.defKey] ?? 0) + 1;
-      const p = powerMap[it.y]?.[it.x] ?? false;
-      if (p) powered[it.defKey] = (powered[it.defKey] ?? 0) + 1;
+  // Apply every replay command due at the state's tick; ends playback at endTick
+  function feedPlayback(state: SimState): SimState {
+    const pb = playbackRef.current;
+    if (!pb) return state;
+    const { due, next } = takeDueEntries(pb.log, state.tick, pb.next);
+    pb.next = next;
+    let s = state;
+    for (const e of due) {
+      s = applyCommand(s, e.cmd).state;
+      commandFx(e.cmd, s);
     }
-    return {
-      money,
-      crowd: Math.round(crowd),
-      vibe,
-      noise,
-      built,
-      powered,
-    };
+    if (s.tick >= pb.log.endTick) {
+      playbackRef.current = null;
+      setPlayingBack(false);
+      setRunning(false);
+      const got = outcomeOf(s);
+      const want = pb.log.final;
+      const same =
+        !!want &&
+        want.money === got.money &&
+        want.vibe === got.vibe &&
+        want.crowd === got.crowd;
+      setToast(
+        same
+          ? `▶ Replay finished — matches ($${Math.floor(got.money)}, vibe ${got.vibe}, crowd ${got.crowd})`
+          : `⚠ Replay diverged: got $${Math.floor(got.money)} / vibe ${got.vibe} / crowd ${got.crowd}`
+      );
+    }
+    return s;
   }
 
-  // Core game loop (economy, fuel, time, crowd agents, milestones)
+  // Core game loop: the headless engine advances the crowd, economy, fuel,
+  // time and milestones; this just feeds it fixed steps and plays the events.
   const econTsRef = useRef<number | null>(null);
+  const simAccRef = useRef(0);
   useEffect(() => {
     let raf = 0;
 
@@ -295,147 +617,68 @@ export default function App() {
       const dt = (now - econTsRef.current) / 1000;
       econTsRef.current = now;
 
-      // Only advance crowd + agents + economy when running
-      if (runningRef.current) {
-        // Crowd easing
-        const target = crowdTargetRef.current;
-        setCrowd((c) => {
-          const diff = target - c;
-          const step =
-            Math.sign(diff) *
-            Math.min(Math.abs(diff), 1.5 + Math.abs(diff) * 0.02);
-          return Math.round((c + step) * 10) / 10;
-        });
-
+      // Only advance the engine when running (or replaying)
+      if (runningRef.current || playbackRef.current) {
         // Time for animations
         simTimeRef.current += dt;
 
-        // Agents: target ~1 per 4 ppl, 10..120
-        const targetAgents = clamp(Math.floor(crowdRef.current / 4), 10, 120);
-        const ag = agentsRef.current;
-        while (ag.length < targetAgents) {
-          ag.push({
-            x: Math.random() * (GRID_W * TILE - 20) + 10,
-            y: Math.random() * (GRID_H * TILE - 20) + 10,
-            vx: 0,
-            vy: 0,
-          });
-        }
-        if (ag.length > targetAgents) ag.splice(targetAgents);
-
-        // Agent movement toward high-vibe zones
-        for (const a of ag) {
-          const gx = Math.max(0, Math.min(GRID_W - 1, Math.floor(a.x / TILE)));
-          const gy = Math.max(0, Math.min(GRID_H - 1, Math.floor(a.y / TILE)));
-
-          let bestX = gx,
-            bestY = gy,
-            bestV = vibeField[gy][gx];
-          for (let dy = -1; dy <= 1; dy++) {
-            for (let dx = -1; dx <= 1; dx++) {
-              if (!dx && !dy) continue;
-              const nx = gx + dx;
-              const ny = gy + dy;
-              if (nx < 0 || ny < 0 || nx >= GRID_W || ny >= GRID_H) continue;
-              const v = vibeField[ny][nx];
-              if (v > bestV) {
-                bestV = v;
-                bestX = nx;
-                bestY = ny;
-              }
-            }
+        // Economy + fuel + clock + milestones, in fixed steps so replays
+        // reproduce exactly regardless of frame rate
+        simAccRef.current = Math.min(simAccRef.current + dt, SIM_DT * 10);
+        let next = simRef.current;
+        const events: SimEvent[] = [];
+        while (simAccRef.current >= SIM_DT) {
+          simAccRef.current -= SIM_DT;
+          if (playbackRef.current) {
+            next = feedPlayback(next);
+            if (!playbackRef.current) break;
           }
-
-          const targetPxX = bestX * TILE + TILE / 2;
-          const targetPxY = bestY * TILE + TILE / 2;
-          const ax = targetPxX - a.x;
-          const ay = targetPxY - a.y;
-
-          const jitter = 12;
-          const jx = (Math.random() - 0.5) * jitter;
-          const jy = (Math.random() - 0.5) * jitter;
-
-          a.vx = a.vx * 0.85 + (ax + jx) * 0.02;
-          a.vy = a.vy * 0.85 + (ay + jy) * 0.02;
-
-          const spd = Math.hypot(a.vx, a.vy);
-          const maxSpd = 90;
-          if (spd > maxSpd) {
-            a.vx *= maxSpd / spd;
-            a.vy *= maxSpd / spd;
-          }
-
-          a.x = clamp(a.x + a.vx * dt, 8, GRID_W * TILE - 8);
-          a.y = clamp(a.y + a.vy * dt, 8, GRID_H * TILE - 8);
+          const r = simulateStep(next, SIM_DT);
+          next = r.state;
+          events.push(...r.events);
         }
+        if (next !== simRef.current) commitSim(next);
 
-        // Economy + fuel + clock
-        const incomePerPersonPerSec = 0.02;
-        setMoney((m) =>
-          Math.max(0, m + dt * (crowdRef.current * incomePerPersonPerSec))
-        );
-
-        const loads = genLoadsRef.current;
-        setItems((prev) =>
-          prev.map((i) => {
-            if (i.defKey !== "genny" || !i.on) return i;
-            const load = loads[i.id] ?? 0;
-            const perSec = GEN_BASE_FUEL_DRAIN + load * GEN_FUEL_PER_POWER;
-            const newFuel = Math.max(0, (i.fuel ?? 100) - dt * perSec);
-            const stillOn = newFuel > 0;
-            return { ...i, fuel: newFuel, on: stillOn };
-          })
-        );
-
-        // 1 real second = 1 in-game minute
-        const add = dt * 60;
-        setTimeMin((prev) => {
-          let next = prev + add;
-          if (next >= 24 * 60) {
-            next -= 24 * 60;
-            setDayNum((d) => d + 1);
-          }
-          return next;
-        });
-
-        // Milestones
-        setGoals((prev) => {
-          const nowDay = dayNum;
-          const nowMin = timeMin;
-          const snap = buildSnapshot();
-          let changed = false;
-
-          const next = prev.map((g) => {
-            if (g.status !== "pending") return g;
-
-            if (g.condition(snap)) {
-              changed = true;
-              try {
-                audioEngine.playGoalComplete();
-              } catch {/* ignore */}
-              if (toast === null) {
-                setToast(`✅ ${g.title} +$${g.reward}`);
-              }
-              setMoney((m) => m + g.reward);
-              return { ...g, status: "completed" as const };
-            }
-
-            if (isPast(g.deadlineDay, g.deadlineMin, nowDay, nowMin)) {
-              changed = true;
+        for (const ev of events) {
+          if (ev.kind === "goalCompleted") {
+            try {
+              audioEngine.playGoalComplete();
+            } catch {/* ignore */}
+            setToast((t) => t ?? `✅ ${ev.goal.title} +$${ev.goal.reward}`);
+          } else if (ev.kind === "goalFailed") {
+            try {
+              audioEngine.playGoalFail();
+            } catch {/* ignore */}
+            setToast((t) => t ?? `❌ Failed: ${ev.goal.title}`);
+          } else if (ev.kind === "incident") {
+            if (ev.incident.fine > 0) {
               try {
                 audioEngine.playGoalFail();
               } catch {/* ignore */}
-              if (toast === null) {
-                setToast(`❌ Failed: ${g.title}`);
-              }
-              return { ...g, status: "failed" as const };
             }
-
-            return g;
-          });
-
-          return changed ? (next as Goal[]) : prev;
-        });
+            // complaints outrank whatever toast is showing
+            setToast(ev.incident.message);
+          } else if (ev.kind === "breakerTripped") {
+            try {
+              audioEngine.playBreakerTrip();
+            } catch {/* ignore */}
+            setToast(`⚡ Breaker tripped — ${ev.over} over capacity. Unplug something, then reset it.`);
+          } else if (ev.kind === "fuelDelivered") {
+            setToast((t) => t ?? `⛽ Fuel delivered: ${ev.order.amount} units`);
+          } else if (ev.kind === "soldOut") {
+            const it = simRef.current.items.find((i) => i.id === ev.itemId);
+            setToast((t) => t ?? `🛒 ${it ? ITEM_DEFS[it.defKey].name : "A vendor"} sold out — restock it`);
+          } else if (ev.kind === "dayClosed") {
+            const p = ev.pnl;
+            const net = dayNet(p);
+            setToast(
+              (t) =>
+                t ??
+                `📒 Day ${p.day} closed: in $${dayIncome(p).toFixed(2)}, out $${(-daySpend(p)).toFixed(2)}, ` +
+                  `net ${net < 0 ? "−" : "+"}$${Math.abs(net).toFixed(2)}`
+            );
+          }
+        }
       }
 
       // keep RAF going either way so resume is smooth
@@ -444,7 +687,7 @@ export default function App() {
 
     raf = requestAnimationFrame(tick);
     return () => cancelAnimationFrame(raf);
-  }, [vibeField, dayNum, timeMin, toast]); // vibeField as dep is OK (memoized)
+  }, []);
 
   // Drawing
   useEffect(() => {
@@ -455,71 +698,31 @@ export default function App() {
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Background grid
-    ctx.fillStyle = "#0f113b";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.strokeStyle = "#2a2f6d";
-    ctx.lineWidth = 1;
-    for (let x = 0; x <= GRID_W; x++) {
-      ctx.beginPath();
-      ctx.moveTo(x * TILE, 0);
-      ctx.lineTo(x * TILE, GRID_H * TILE);
-      ctx.stroke();
-    }
-    for (let y = 0; y <= GRID_H; y++) {
-      ctx.beginPath();
-      ctx.moveTo(0, y * TILE);
-      ctx.lineTo(GRID_W * TILE, y * TILE);
-      ctx.stroke();
-    }
-
-    // Generator aura
-    ctx.fillStyle = "rgba(55,214,205,0.08)";
-    for (const it of items) {
-      if (it.defKey === "genny") {
-        const r = (ITEM_DEFS.genny.range ?? 4) * TILE + TILE / 2;
-        ctx.beginPath();
-        ctx.arc(
-          it.x * TILE + TILE / 2,
-          it.y * TILE + TILE / 2,
-          r,
-          0,
-          Math.PI * 2
-        );
-        ctx.fill();
-      }
-    }
-
-    // Wires
-    ctx.strokeStyle = "#37d6cd";
-    ctx.lineWidth = 2;
-    for (const w of wires) {
-      const g = items.find((i) => i.id === w.fromGenId);
-      const t = items.find((i) => i.id === w.toItemId);
-      if (!g || !t) continue;
-      const x1 = g.x * TILE + TILE / 2;
-      const y1 = g.y * TILE + TILE / 2;
-      const x2 = t.x * TILE + TILE / 2;
-      const y2 = t.y * TILE + TILE / 2;
-      ctx.globalAlpha = 0.9;
-      ctx.beginPath();
-      ctx.moveTo(x1, y1);
-      ctx.lineTo(x2, y1);
-      ctx.lineTo(x2, y2);
-      ctx.stroke();
-      ctx.globalAlpha = 1.0;
+    drawBoard(ctx, items, wires, powerModel, walkways);
+    if (dragPreview) {
+      drawCablePath(ctx, dragPreview.path ?? [], "#ffd166", true);
+      drawRect(ctx, cableDrag!.at.x, cableDrag!.at.y, dragPreview.path ? "#ffd166" : "#ff6b6b");
     }
+    if (noiseField) drawNoiseMap(ctx, noiseField);
+    drawNeighbours(ctx, boundary);
 
     // Hover tooltip for existing item
     if (hoverItemId) {
       const it = items.find((i) => i.id === hoverItemId)!;
       const def = ITEM_DEFS[it.defKey];
       const powered = powerMap[it.y]?.[it.x] ?? false;
+      const supply = powerResult.supply[it.id] ?? 1;
       const lines = [
         def.name,
         `Vibe +${def.baseVibe} • Noise +${def.noise}`,
         `Power ${def.power}${
-          def.power > 0 ? (powered ? " (powered)" : " (unpowered)") : ""
+          def.power > 0
+            ? powered
+              ? supply < BROWNOUT_AT
+                ? ` (brownout, ${Math.round(supply * 100)}%)`
+                : " (powered)"
+              : " (unpowered)"
+            : ""
         }`,
         def.range ? `Range ${def.range}` : null,
       ].filter(Boolean) as string[];
@@ -547,8 +750,11 @@ export default function App() {
       drawItem(ctx, it, selected === it.id, powered, simTimeRef.current);
     }
 
+    drawTripHazards(ctx, hazards);
+    drawCongestion(ctx, population.congestion);
+
     // Hover ghost + palette tooltip
-    if (hoverGhost) {
+    if (hoverGhost && !cableDrag) {
       const valid = canPlace(items, hoverGhost.x, hoverGhost.y);
       ctx.globalAlpha = 0.6;
       drawRect(
@@ -583,25 +789,37 @@ export default function App() {
       );
     }
 
-    // Crowd agents
-    const agents = agentsRef.current;
-    for (let i = 0; i < agents.length; i++) {
-      const p = agents[i];
-      const r = 2 + (i % 3);
-      ctx.fillStyle = i % 7 === 0 ? "#ffd166" : "#e7ebff";
+    // Crowd agents: dim while asleep, red when a need is getting desperate,
+    // grey on their way home
+    population.agents.forEach((a, i) => {
+      const asleep = a.doing === "sleep" && atTarget(a);
+      ctx.fillStyle = a.leaving
+        ? "rgba(231,235,255,0.35)"
+        : asleep
+        ? "#5b6abf"
+        : !isSatisfied(a)
+        ? "#ff6b6b"
+        : i % 7 === 0
+        ? "#ffd166"
+        : "#e7ebff";
       ctx.beginPath();
-      ctx.arc(p.x, p.y, r, 0, Math.PI * 2);
+      ctx.arc(a.x * TILE, a.y * TILE, 2 + (a.id % 3), 0, Math.PI * 2);
       ctx.fill();
-    }
+    });
   }, [
     items,
     hoverGhost,
     hoverItemId,
     selected,
-    crowd,
+    population,
     palette,
     wires,
     powerMap,
+    noiseField,
+    boundary,
+    walkways,
+    hazards,
+    dragPreview,
   ]);
 
   // Mouse move
@@ -614,6 +832,13 @@ export default function App() {
       setHoverItemId(null);
       return;
     }
+    if (cableDrag) {
+      if (tx !== cableDrag.at.x || ty !== cableDrag.at.y) {
+        dragMovedRef.current = true;
+        setCableDrag({ ...cableDrag, at: { x: tx, y: ty } });
+      }
+      return;
+    }
     const hit = items.find((it) => it.x === tx && it.y === ty);
     if (hit) {
       setHoverItemId(hit.id);
@@ -624,8 +849,93 @@ export default function App() {
     }
   }
 
+  // Single entry point for player commands (UI, recorder and undo share it)
+  function dispatch(cmd: Command): boolean {
+    if (playbackRef.current) return false; // input is locked while replaying
+    const before = simRef.current;
+    const { state: next, error } = applyCommand(before, cmd);
+    if (error) {
+      alert(error);
+      return false;
+    }
+    if (isUndoable(cmd)) {
+      commitHistory(
+        pushHistory(historyRef.current, {
+          label: describeCommand(cmd, before),
+          tick: before.tick,
+          before: snapshotOf(before),
+          after: snapshotOf(next),
+        })
+      );
+    }
+    if (recordingRef.current) recordCommand(recordingRef.current, before, cmd);
+    commitSim(next);
+    commandFx(cmd, next);
+    return true;
+  }
+
+  // Sounds + UI side effects of an applied command (live or replayed)
+  function commandFx(cmd: Command, after: SimState) {
+    try {
+      if (cmd.type === "place") audioEngine.playPlace(ITEM_DEFS[cmd.defKey].draw.shape);
+      else if (cmd.type === "remove") audioEngine.playRemove();
+      else if (cmd.type === "resetBreaker") audioEngine.playGenToggle(true);
+      else if (cmd.type === "toggleGen") {
+        const g = after.items.find((i) => i.id === cmd.id);
+        audioEngine.playGenToggle(!!g?.on);
+      }
+    } catch {/* ignore */}
+    if (cmd.type === "setRunning") setRunning(cmd.running);
+    if (cmd.type === "setPowerModel" && cmd.model === "radius") setConnectFromId(null);
+  }
+
+  // Press on an empty tile a cable crosses: start dragging a waypoint there
+  function onCanvasMouseDown(e: React.MouseEvent) {
+    try {
+      audioEngine.ensureCtx();
+    } catch {
+      /* ignore */
+    }
+    dragMovedRef.current = false;
+    if (e.button !== 0 || connectFromId || playingBack) return;
+    const rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
+    const tile = { x: pxToTile(e.clientX - rect.left), y: pxToTile(e.clientY - rect.top) };
+    if (items.some((it) => it.x === tile.x && it.y === tile.y)) return;
+    const w = [...wires].reverse().find((x) => crossesTile(x, tile.x, tile.y));
+    if (!w) return;
+    setCableDrag({ wireId: w.id, ...waypointSlot(w, tile), start: tile, at: tile });
+  }
+
+  function onCanvasMouseUp() {
+    if (!cableDrag) return;
+    if (dragMovedRef.current && dragPreview?.path) {
+      dispatch({ type: "routeWire", id: cableDrag.wireId, waypoints: dragPreview.waypoints });
+    }
+    setCableDrag(null);
+  }
+
+  // Right-click a waypoint to drop it
+  function onCanvasContextMenu(e: React.MouseEvent) {
+    const rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
+    const tx = pxToTile(e.clientX - rect.left);
+    const ty = pxToTile(e.clientY - rect.top);
+    const w = wires.find((x) => x.waypoints.some((p) => p.x === tx && p.y === ty));
+    if (!w) return;
+    e.preventDefault();
+    dispatch({
+      type: "routeWire",
+      id: w.id,
+      waypoints: w.waypoints.filter((p) => p.x !== tx || p.y !== ty),
+    });
+  }
+
   // Click: connect mode → select → place
   function onCanvasClick(e: React.MouseEvent) {
+    // the click that ends a waypoint drag isn't a placement
+    if (dragMovedRef.current) {
+      dragMovedRef.current = false;
+      return;
+    }
     const rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
     const tx = pxToTile(e.clientX - rect.left);
     const ty = pxToTile(e.clientY - rect.top);
@@ -634,31 +944,17 @@ export default function App() {
     const hit = items.find((it) => it.x === tx && it.y === ty);
 
     // Connect mode first
-    if (connectFromGenId) {
-      if (hit && ITEM_DEFS[hit.defKey].power > 0) {
-        const gen = items.find((i) => i.id === connectFromGenId);
-        if (gen) {
-          const length =
-            Math.abs(gen.x - hit.x) + Math.abs(gen.y - hit.y);
-          const cost = WIRE_BASE_COST + length * WIRE_COST_PER_TILE;
-          if (money < cost) {
-            alert(`Need $${cost} to wire (${length} tiles).`);
-          } else {
-            pushUndo();
-            setMoney((m) => m - cost);
-            setWires((ws) => [
-              ...ws,
-              {
-                id: cryptoRandomId(),
-                fromGenId: gen.id,
-                toItemId: hit.id,
-                length,
-              },
-            ]);
-          }
-        }
+    if (connectFromId) {
+      if (hit && hit.id !== connectFromId && isPowerNode(hit.defKey)) {
+        dispatch({
+          type: "wire",
+          id: newId(),
+          fromId: connectFromId,
+          toId: hit.id,
+          gauge: cableGauge,
+        });
       }
-      setConnectFromGenId(null);
+      setConnectFromId(null);
       return;
     }
 
@@ -670,66 +966,38 @@ export default function App() {
 
     // Place new item
     if (!canPlace(items, tx, ty)) return;
-    const def = ITEM_DEFS[palette];
-    if (money < def.cost) {
-      alert("Not enough money!");
-      return;
-    }
-    pushUndo();
-    setMoney((m) => m - def.cost);
-    const base: PlacedItem = {
-      id: cryptoRandomId(),
-      defKey: def.key,
-      x: tx,
-      y: ty,
-      rot: 0,
-    };
-
-    try {
-      audioEngine.playPlace(def.key);
-    } catch {/* ignore */}
-
-    const newItem: PlacedItem =
-      def.key === "genny"
-        ? { ...base, on: false, fuel: 100 }
-        : base;
-    setItems((arr) => [...arr, newItem]);
+    dispatch({ type: "place", id: newId(), defKey: palette, x: tx, y: ty });
   }
 
   // Keyboard
   useEffect(() => {
     function onKey(e: KeyboardEvent) {
+      // Typing in a text field (e.g. the save browser) isn't a game command
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === "INPUT" || t.tagName === "SELECT" || t.tagName === "TEXTAREA")) {
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "y") {
+        e.preventDefault();
+        redo();
+        return;
+      }
       const sel = selected && items.find((i) => i.id === selected);
       if ((e.key === "r" || e.key === "R") && sel) {
         e.preventDefault();
-        pushUndo();
-        setItems((arr) =>
-          arr.map((it) =>
-            it.id === selected ? { ...it, rot: nextRot(it.rot) } : it
-          )
-        );
+        dispatch({ type: "rotate", id: sel.id });
       } else if (
         (e.key === "Delete" || e.key === "Backspace") &&
         sel
       ) {
         e.preventDefault();
-        pushUndo();
-        setMoney(
-          (m) =>
-            m +
-            Math.floor(ITEM_DEFS[sel.defKey].cost * 0.6)
-        );
-        try {
-          audioEngine.playRemove();
-        } catch {/* ignore */}
-        setItems((arr) => arr.filter((it) => it.id !== selected));
-        setWires((ws) =>
-          ws.filter(
-            (w) =>
-              w.fromGenId !== selected && w.toItemId !== selected
-          )
-        );
-        setSelected(null);
+        if (dispatch({ type: "remove", id: sel.id })) setSelected(null);
       } else if (e.key === "Escape") {
         setSelected(null);
       } else if (
@@ -746,15 +1014,12 @@ export default function App() {
         const nx = clamp(sel.x + dx, 0, GRID_W - 1);
         const ny = clamp(sel.y + dy, 0, GRID_H - 1);
         if (canPlace(items.filter((i) => i.id !== sel.id), nx, ny)) {
-          pushUndo();
-          setItems((arr) =>
-            arr.map((i) =>
-              i.id === sel.id ? { ...i, x: nx, y: ny } : i
-            )
-          );
+          dispatch({ type: "nudge", id: sel.id, dx, dy });
         }
       } else if (e.key.toLowerCase() === "h") {
         setShowHelp((s) => !s);
+      } else if (e.key.toLowerCase() === "n") {
+        setShowNoiseMap((s) => !s);
       } else if (e.key.toLowerCase() === "s") {
         e.preventDefault();
         doScreenshot(
@@ -774,24 +1039,19 @@ export default function App() {
             total: goals.length,
           }
         );
-      } else if (sel && sel.defKey === "genny" && e.key.toLowerCase() === "f") {
+      } else if (sel && isGenerator(sel.defKey) && e.key.toLowerCase() === "f") {
         e.preventDefault();
-        pushUndo();
-        setItems((arr) =>
-          arr.map((i) => {
-            if (i.id !== sel.id) return i;
-            const newOn = !i.on;
-            try {
-              audioEngine.playGenToggle(newOn);
-            } catch {/* ignore */}
-            return { ...i, on: newOn };
-          })
-        );
-      } else if (sel && sel.defKey === "genny" && e.key.toLowerCase() === "c") {
-        setConnectFromGenId(sel.id);
+        dispatch({ type: "toggleGen", id: sel.id });
+      } else if (
+        sel &&
+        isPowerNode(sel.defKey) &&
+        e.key.toLowerCase() === "c" &&
+        simRef.current.powerModel !== "radius"
+      ) {
+        setConnectFromId(sel.id);
       } else if (e.key === " ") {
         e.preventDefault();
-        setRunning((r) => !r);
+        dispatch({ type: "setRunning", running: !runningRef.current });
       }
     }
 
@@ -799,16 +1059,64 @@ export default function App() {
     return () => window.removeEventListener("keydown", onKey);
   }, [selected, items, money, vibe, noise, crowd, dayNum, timeMin, goals]);
 
-  // Undo helpers
-  function pushUndo() {
-    undoStack.current.push(structuredClone(items));
+  // Undo/redo: move the history cursor; the restore itself is a command so
+  // replays reproduce it
+  function travelHistory(target: number) {
+    const h = historyRef.current;
+    const blocked = undoBlocker(h, target, simRef.current);
+    if (blocked) {
+      alert(blocked);
+      return;
+    }
+    const r = restoreTo(h, target, simRef.current);
+    if (!r) return;
+    if (dispatch({ type: "restore", ...r })) {
+      commitHistory(moveCursor(h, target));
+      setSelected(null);
+    }
   }
-  function undo() {
-    const prev = undoStack.current.pop();
-    if (!prev) return;
-    setItems(prev);
+  const undo = () => travelHistory(historyRef.current.cursor - 1);
+  const redo = () => travelHistory(historyRef.current.cursor + 1);
+
+  // Replay: start/stop recording (stopping downloads the log)
+  function toggleRecording() {
+    if (!recordingRef.current) {
+      recordingRef.current = startRecording(simRef.current);
+      setRecording(true);
+      return;
+    }
+    const log = finishRecording(recordingRef.current, simRef.current);
+    recordingRef.current = null;
+    setRecording(false);
+    downloadJson(log, `sound-camp-replay-${Date.now()}.json`);
+  }
+
+  // Replay: load a log and feed it back through the command path
+  const replayInputRef = useRef<HTMLInputElement | null>(null);
+  async function startPlayback(file: File) {
+    let log: ReplayLog;
+    try {
+      log = parseReplay(await file.text());
+    } catch (err) {
+      alert(`Couldn't read replay: ${(err as Error).message}`);
+      return;
+    }
+    recordingRef.current = null;
+    setRecording(false);
+    commitHistory(emptyHistory());
+    simAccRef.current = 0;
+    commitSim(beginPlayback(log));
+    playbackRef.current = { log, next: 0 };
+    setPlayingBack(true);
     setSelected(null);
+    setConnectFromId(null);
+  }
+  function stopPlayback() {
+    playbackRef.current = null;
+    setPlayingBack(false);
+    setRunning(false);
   }
+
   function clearAll() {
   if (
     !confirm(
@@ -818,32 +1126,28 @@ export default function App() {
     return;
   }
 
-  // Clear stacks and refs
-  undoStack.current = [];
-  agentsRef.current = [];
+  // Clear stacks and refs; a fresh run gets a fresh seed
+  rng.reseed(randomSeed());
+  commitHistory(emptyHistory());
   simTimeRef.current = 0;
-  crowdTargetRef.current = 0;
   econTsRef.current = null;
+  simAccRef.current = 0;
   genLoadsRef.current = {};
+  recordingRef.current = null;
+  playbackRef.current = null;
+  setRecording(false);
+  setPlayingBack(false);
 
-  // Core state reset
-  setItems([]);
-  setWires([]);
+  // Core state reset (engine state: layout, money, crowd, time, goals)
+  commitSim(freshSimState());
   setSelected(null);
-  setMoney(START_MONEY);
   setVibe(0);
   setNoise(0);
-  setCrowd(0);
-
-  // Time + sim
-  setDayNum(1);
-  setTimeMin(0);
   setRunning(false);
 
-  // Goals & UI
-  setGoals(defaultGoals());
+  // UI
   setToast(null);
-  setConnectFromGenId(null);
+  setConnectFromId(null);
   setHoverGhost(null);
   setHoverItemId(null);
 
@@ -911,6 +1215,46 @@ export default function App() {
             {itemStats(ITEM_DEFS[palette])}
           </div>
         </div>
+
+        <div style={{ marginTop: 12, ...styles.card }}>
+          <label style={{ ...styles.row, alignItems: "center" }}>
+            <b>Power model</b>
+            <select
+              style={styles.input}
+              value={powerModel}
+              disabled={playingBack}
+              onChange={(e) =>
+                dispatch({ type: "setPowerModel", model: e.target.value as PowerModel })
+              }
+            >
+              {(Object.keys(POWER_MODEL_INFO) as PowerModel[]).map((m) => (
+                <option key={m} value={m}>
+                  {POWER_MODEL_INFO[m].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div style={{ fontSize: 12, opacity: 0.8, marginTop: 4 }}>
+            {POWER_MODEL_INFO[powerModel].hint}
+          </div>
+          <label style={{ ...styles.row, alignItems: "center", marginTop: 8 }}>
+            <b>New cables</b>
+            <select
+              style={styles.input}
+              value={cableGauge}
+              onChange={(e) => setCableGauge(e.target.value as CableGauge)}
+            >
+              {(Object.keys(CABLE_GAUGES) as CableGauge[]).map((g) => (
+                <option key={g} value={g}>
+                  {CABLE_GAUGES[g].name} — ${CABLE_GAUGES[g].costPerTile}/tile,{" "}
+                  {CABLE_GAUGES[g].lossPerTile * 100}% loss/tile
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <ModsPanel items={items} onChange={onCatalogChange} />
       </div>
 
       {/* MAIN (center column: HUD + board + inspector) */}
@@ -931,6 +1275,27 @@ export default function App() {
           <div>
             🎵 Tier: <b>{tier}</b>
           </div>
+          {hazards.length > 0 && (
+            <div
+              style={{ color: "#ffd166" }}
+              title={`Cables across walkways cost ${TRIP_HAZARD_VIBE} vibe each — drag them around`}
+            >
+              ⚠️ <b>{hazards.length}</b> trip hazard{hazards.length === 1 ? "" : "s"}
+            </div>
+          )}
+          {jams > 0 && (
+            <div
+              style={{ color: "#ff6b6b" }}
+              title={`Tiles the crowd keeps queueing for cost ${CONGESTION_VIBE} vibe each — clear the way`}
+            >
+              🚧 <b>{jams}</b> bottleneck{jams === 1 ? "" : "s"}
+            </div>
+          )}
+          {complaints.curfew && (
+            <div style={{ color: "#ff6b6b" }} title="Speakers limited until 07:00">
+              🚫 <b>Curfew</b>
+            </div>
+          )}
 
           <div
             style={{
@@ -942,7 +1307,8 @@ export default function App() {
             <button
               type="button"
               style={styles.smallBtn}
-              onClick={() => setRunning((r) => !r)}
+              onClick={() => dispatch({ type: "setRunning", running: !running })}
+              disabled={playingBack}
             >
               {running ? "Pause" : "Play"}
             </button>
@@ -953,19 +1319,103 @@ export default function App() {
             >
               Undo
             </button>
+            <button
+              type="button"
+              style={{
+                ...styles.smallBtn,
+                color: recording ? "#ff6b6b" : styles.smallBtn.color,
+              }}
+              onClick={toggleRecording}
+              disabled={playingBack}
+              title="Record every command into a replay log; stop to download it"
+            >
+              {recording ? "■ Stop Rec" : "● Rec"}
+            </button>
+            <button
+              type="button"
+              style={styles.smallBtn}
+              onClick={() =>
+                playingBack ? stopPlayback() : replayInputRef.current?.click()
+              }
+              title="Play back a recorded replay log"
+            >
+              {playingBack ? "Stop Replay" : "Replay"}
+            </button>
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                e.target.value = "";
+                if (f) void startPlayback(f);
+              }}
+            />
+            <button
+              type="button"
+              style={{
+                ...styles.smallBtn,
+                borderColor: showNoiseMap ? "#ffd166" : undefined,
+              }}
+              onClick={() => setShowNoiseMap((v) => !v)}
+              title="Show how loud each tile is (N)"
+            >
+              Noise Map
+            </button>
+            <button
+              type="button"
+              style={styles.smallBtn}
+              onClick={() => setShowSaves(true)}
+              disabled={playingBack}
+              title="Save, load and manage save slots"
+            >
+              Saves
+            </button>
+            <button
+              type="button"
+              style={styles.smallBtn}
+              onClick={doExport}
+              title="Download this session as a .scamp.json file"
+            >
+              Export
+            </button>
+            <button
+              type="button"
+              style={styles.smallBtn}
+              onClick={() => importInputRef.current?.click()}
+              disabled={playingBack}
+              title="Load a .scamp.json file"
+            >
+              Import
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                e.target.value = "";
+                if (f) void doImportFile(f);
+              }}
+            />
             <button
               type="button"
               style={styles.smallBtn}
-              onClick={doManualSave}
+              onClick={() => void doShareCode()}
+              title="Copy a share code for this layout"
             >
-              Save
+              Share
             </button>
             <button
               type="button"
               style={styles.smallBtn}
-              onClick={doManualLoad}
+              onClick={() => void doPasteCode()}
+              disabled={playingBack}
+              title="Load a layout from a share code"
             >
-              Load
+              Paste Code
             </button>
             <button
               type="button"
@@ -1027,15 +1477,12 @@ export default function App() {
             onMouseLeave={() => {
               setHoverGhost(null);
               setHoverItemId(null);
+              setCableDrag(null);
             }}
             onClick={onCanvasClick}
-            onMouseDown={() => {
-              try {
-                audioEngine.ensureCtx();
-              } catch {
-                /* ignore */
-              }
-            }}
+            onMouseDown={onCanvasMouseDown}
+            onMouseUp={onCanvasMouseUp}
+            onContextMenu={onCanvasContextMenu}
           />
           {showHelp && (
             <div style={styles.helpOverlay}>
@@ -1065,11 +1512,20 @@ export default function App() {
                   nudge
                 </li>
                 <li>
-                  <b>S</b> screenshot • <b>H</b> toggle help
+                  <b>S</b> screenshot • <b>H</b> toggle help • <b>N</b> noise map
+                </li>
+                <li>
+                  <b>Ctrl+Z</b> undo • <b>Ctrl+Shift+Z</b> redo
                 </li>
                 <li>
                   <b>Space</b> play / pause • <b>F</b> toggle generator •{" "}
-                  <b>C</b> connect from generator
+                  <b>C</b> run a cable from the selected item
+                </li>
+                <li>
+                  Drag a cable to add a <b>waypoint</b> • right-click one to remove it
+                </li>
+                <li>
+                  Seed <b>{rng.seed}</b> (replay with <code>?seed=</code>)
                 </li>
               </ul>
             </div>
@@ -1091,40 +1547,44 @@ export default function App() {
             <SelectedInspector
               item={items.find((i) => i.id === selected)!}
               powerMap={powerMap}
+              score={itemScores[selected!]}
               genLoad={genLoads[selected!] ?? 0}
-              onToggleGenerator={(id) => {
-                pushUndo();
-                setItems((arr) =>
-                  arr.map((i) => {
-                    if (i.id !== id) return i;
-                    const newOn = !i.on;
-                    try {
-                      audioEngine.playGenToggle(newOn);
-                    } catch {/* ignore */}
-                    return { ...i, on: newOn };
-                  })
-                );
-              }}
-              onRefuel={(id) => {
-                if (money < 25) {
-                  alert("Not enough money to refuel!");
-                  return;
-                }
-                pushUndo();
-                setMoney((m) => m - 25);
-                setItems((arr) =>
-                  arr.map((i) =>
-                    i.id === id
-                      ? {
-                          ...i,
-                          fuel: Math.min(100, (i.fuel ?? 100) + 50),
-                        }
-                      : i
-                  )
-                );
+              feed={powerResult.feeds[selected!]}
+              supply={powerResult.supply[selected!]}
+              cables={wires.filter((w) => w.fromId === selected || w.toId === selected)}
+              nameOf={(id) => {
+                const it = items.find((i) => i.id === id);
+                return it ? ITEM_DEFS[it.defKey].name : "?";
               }}
-              onConnectStart={(id) => setConnectFromGenId(id)}
-              connectActive={connectFromGenId === selected}
+              onSetGauge={(id, gauge) => dispatch({ type: "setGauge", id, gauge })}
+              network={powerResult.networks[powerResult.networkOf[selected!]]}
+              powerModel={powerModel}
+              onToggleGenerator={(id) => dispatch({ type: "toggleGen", id })}
+              onRefuel={(id) => dispatch({ type: "refuel", id })}
+              overload={powerResult.overloads[selected!]}
+              resetOver={
+                items.find((i) => i.id === selected)?.tripped
+                  ? breakerOverload(items, wires, selected!)
+                  : undefined
+              }
+              onResetBreaker={(id) => dispatch({ type: "resetBreaker", id })}
+              onSetAutoRefuel={(id, threshold) => dispatch({ type: "setAutoRefuel", id, threshold })}
+              dayNum={dayNum}
+              timeMin={timeMin}
+              charging={powerResult.charging[selected!]}
+              energy={energyLog[selected!]}
+              depotFuel={depotStock(items)}
+              fuelOrders={fuelOrders.filter((o) => o.depotId === selected)}
+              onOrderFuel={(depotId, amount) =>
+                dispatch({ type: "orderFuel", id: newId(), depotId, amount })
+              }
+              queue={population.agents.filter((a) => a.itemId === selected && !a.leaving).length}
+              salesToday={ledger.transactions.filter(
+                (t) => t.kind === "sales" && t.itemId === selected && t.dayNum === dayNum
+              )}
+              onRestock={(id) => dispatch({ type: "restock", id })}
+              onConnectStart={(id) => setConnectFromId(id)}
+              connectActive={connectFromId === selected}
             />
           ) : (
             <div style={{ opacity: 0.7 }}>
@@ -1137,6 +1597,24 @@ export default function App() {
       {/* RIGHT BAR = Goals */}
       <div style={styles.rightBar}>
         <h3 style={styles.h3}>Goals</h3>
+        <CrowdPanel population={population} items={items} powerMap={powerMap} timeMin={timeMin} />
+        <AttendancePanel
+          funnel={population.funnel}
+          ticketPrice={ticketPrice}
+          vibe={vibe}
+          gates={items.filter(isGate).length}
+          disabled={playingBack}
+          onPriceChange={(price) => dispatch({ type: "setTicketPrice", price })}
+        />
+        <FinancePanel
+          ledger={ledger}
+          onExportPnl={() => downloadText(pnlCsv(ledger), `sound-camp-pnl-${Date.now()}.csv`, "text/csv")}
+          onExportTransactions={() =>
+            downloadText(transactionsCsv(ledger), `sound-camp-transactions-${Date.now()}.csv`, "text/csv")
+          }
+        />
+        <NeighboursPanel levels={boundary} />
+        <IncidentLog complaints={complaints} />
         <div style={{ ...styles.card, marginBottom: 12 }}>
           <div
             style={{
@@ -1190,7 +1668,17 @@ export default function App() {
             })}
           </div>
         </div>
+
+        <HistoryPanel history={history} onJump={travelHistory} />
       </div>
+
+      {showSaves && (
+        <SaveBrowser
+          onLoad={(name) => void loadSlot(name)}
+          onSaveCurrent={saveCurrentAs}
+          onClose={() => setShowSaves(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1284,27 +1772,97 @@ function doScreenshot(
   a.remove();
 }
 
+// Download any JSON-serialisable value as a file
+function downloadJson(data: unknown, filename: string) {
+  downloadText(JSON.stringify(data, null, 2), filename, "application/json");
+}
+
+// Download text (JSON, CSV) as a file
+function downloadText(text: string, filename: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
 // Inspector for selected item
 function SelectedInspector({
   item,
   powerMap,
+  score,
+  feed,
+  supply,
+  network,
+  cables,
+  nameOf,
+  onSetGauge,
+  powerModel,
   onToggleGenerator,
   onRefuel,
   genLoad,
+  overload,
+  resetOver,
+  onResetBreaker,
+  onSetAutoRefuel,
+  dayNum,
+  timeMin,
+  charging,
+  energy,
+  depotFuel,
+  fuelOrders,
+  onOrderFuel,
+  queue,
+  salesToday,
+  onRestock,
   onConnectStart,
   connectActive,
 }: {
   item: PlacedItem;
   powerMap: boolean[][];
+  score?: ItemScore;
+  feed?: PowerFeed;
+  supply?: number;
+  network?: PowerNetwork;
+  cables: Wire[];
+  nameOf: (id: string) => string;
+  onSetGauge?: (id: string, gauge: CableGauge) => void;
+  powerModel: PowerModel;
   onToggleGenerator?: (id: string) => void;
   onRefuel?: (id: string) => void;
   genLoad?: number;
+  overload?: number;   // demand above capacity right now (trips on the next step)
+  resetOver?: number;  // tripped: how far over it would be if reset now
+  onResetBreaker?: (id: string) => void;
+  onSetAutoRefuel?: (id: string, threshold: number | null) => void;
+  dayNum: number;      // fuel prices change by day
+  timeMin: number;     // solar output follows the sun
+  charging?: number;   // batteries: power flowing in
+  energy?: EnergySample[];
+  depotFuel: number;   // units left across all depots
+  fuelOrders: FuelOrder[]; // deliveries on their way to this item (depots)
+  onOrderFuel?: (depotId: string, amount: number) => void;
+  queue: number;       // groups heading to or waiting at this item
+  salesToday: Transaction[];  // vendors: today's sales
+  onRestock?: (id: string) => void;
   onConnectStart?: (id: string) => void;
   connectActive?: boolean;
 }) {
   const def = ITEM_DEFS[item.defKey];
   const powered = powerMap[item.y]?.[item.x] ?? false;
-  const isGen = item.defKey === "genny";
+  const isGen = isGenerator(item.defKey);
+  const canConnect = isPowerNode(item.defKey) && powerModel !== "radius";
+  const rated = ratedCapacity(item.defKey);
+  const available = isRunning(item) ? sourceCapacity(item, timeMin) : 0;
+  // Refuel takes what the depots have and buys the rest in town (see commands.ts)
+  const refuelWant = Math.max(0, Math.min(REFUEL_AMOUNT, 100 - (item.fuel ?? 100)));
+  const refuelCost = Math.round(
+    Math.max(0, refuelWant - depotFuel) * fuelPrice(dayNum) * FUEL_TOWN_MARKUP
+  );
 
   return (
     <div style={styles.card}>
@@ -1328,6 +1886,14 @@ function SelectedInspector({
         <span>Power Use</span>
         <b>{def.power}</b>
       </div>
+      {def.coneDeg && (
+        <div style={styles.row}>
+          <span>Facing</span>
+          <b>
+            {["→", "↓", "←", "↑"][item.rot / 90]} {def.coneDeg}° cone (R to turn)
+          </b>
+        </div>
+      )}
       <div style={styles.row}>
         <span>Powered</span>
         <b
@@ -1338,15 +1904,119 @@ function SelectedInspector({
           {powered ? "Yes" : "No"}
         </b>
       </div>
+      {feed && (
+        <div style={styles.row}>
+          <span>Fed by</span>
+          <b>{feed.via === "wire" ? "Cable" : "Generator in range"}</b>
+        </div>
+      )}
+      {powered && def.power > 0 && (
+        <div style={styles.row}>
+          <span>Delivered / Required</span>
+          <b style={{ color: (supply ?? 1) < BROWNOUT_AT ? "#ffd166" : "#37d6cd" }}>
+            {Math.round(def.power * (supply ?? 1) * 100) / 100} / {def.power}
+            {(supply ?? 1) < BROWNOUT_AT ? " (brownout)" : ""}
+          </b>
+        </div>
+      )}
+      {network && (
+        <div style={styles.row}>
+          <span>Network</span>
+          <b>
+            {network.genIds.length} gen{network.genIds.length === 1 ? "" : "s"} •{" "}
+            {Math.round(network.load * 10) / 10} / {network.capacity} •{" "}
+            {network.nodeIds.length} nodes
+          </b>
+        </div>
+      )}
+
+      {score && score.lines.length > 0 && (
+        <div style={{ marginTop: 8, fontSize: 12 }}>
+          <div style={styles.row}>
+            <span>Vibe / Noise</span>
+            <b>
+              {score.vibe >= 0 ? "+" : ""}
+              {score.vibe} / +{score.noise}
+            </b>
+          </div>
+          {score.lines.map((l, i) => {
+            const bad = l.stat === "vibe" ? l.delta < 0 : l.delta > 0;
+            return (
+              <div key={i} style={{ ...styles.row, opacity: 0.85 }}>
+                <span>
+                  {l.label} ({l.stat})
+                </span>
+                <span style={{ color: bad ? "#ff6b6b" : "#37d6cd" }}>
+                  {l.delta >= 0 ? "+" : ""}
+                  {Math.round(l.delta * 10) / 10}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
 
       {isGen && (
         <>
           <div style={styles.row}>
-            <span>Load</span>
+            <span>{isBattery(item.defKey) ? "Discharging" : "Load"}</span>
             <b>
-              {Math.round(genLoad ?? 0)} / {GEN_CAPACITY}
+              {Math.round((genLoad ?? 0) * 10) / 10} / {Math.round(available * 10) / 10}
+              {available < rated ? ` (rated ${rated})` : ""}
             </b>
           </div>
+          {isSolar(item.defKey) && (
+            <div style={styles.row}>
+              <span>Sunlight</span>
+              <b>{Math.round(sunFactor(timeMin) * 100)}%</b>
+            </div>
+          )}
+          {isBattery(item.defKey) && (
+            <div style={styles.row}>
+              <span>Charge</span>
+              <b>
+                {Math.round(item.charge ?? 0)} / {batteryStorage(item.defKey)}
+                {charging ? ` (+${Math.round(charging * 10) / 10})` : ""}
+              </b>
+            </div>
+          )}
+          {overload != null && (
+            <div style={styles.row}>
+              <span>Overload</span>
+              <b style={{ color: "#ff6b6b" }}>{overload} over capacity — will trip</b>
+            </div>
+          )}
+          {item.tripped && (
+            <>
+              <div style={styles.row}>
+                <span>Breaker</span>
+                <b style={{ color: "#ff6b6b" }}>Tripped ({item.trippedOver ?? 0} over capacity)</b>
+              </div>
+              <div style={styles.row}>
+                <span>If reset now</span>
+                <b style={{ color: (resetOver ?? 0) > 0 ? "#ff6b6b" : "#37d6cd" }}>
+                  {(resetOver ?? 0) > 0 ? `${resetOver} over — shed load first` : "Within capacity"}
+                </b>
+              </div>
+              <button
+                type="button"
+                style={{ ...styles.smallBtn, marginTop: 6 }}
+                disabled={(resetOver ?? 0) > 0}
+                onClick={() => onResetBreaker?.(item.id)}
+                title={(resetOver ?? 0) > 0 ? "Unplug or remove some devices first" : "Reset the breaker and restart"}
+              >
+                Reset breaker
+              </button>
+            </>
+          )}
+          {powerModel !== "wired" && (
+            <div style={styles.row}>
+              <span>Range</span>
+              <b>
+                {def.range ?? 4} tiles{powerModel === "hybrid" ? " (spare capacity)" : ""}
+              </b>
+            </div>
+          )}
           <div
             style={{
               marginTop: 8,
@@ -1355,11 +2025,22 @@ function SelectedInspector({
           <button
             type="button"
             style={styles.smallBtn}
+            disabled={item.tripped}
             onClick={() => onToggleGenerator?.(item.id)}
-            title="Toggle generator (F)"
+            title={item.tripped ? "Reset the breaker first" : "Toggle generator (F)"}
           >
             {item.on ? "Turn OFF Generator" : "Turn ON Generator"}
           </button>
+          <EnergyGraph
+            samples={energy ?? []}
+            rated={rated}
+            storage={isBattery(item.defKey) ? batteryStorage(item.defKey) : undefined}
+          />
+        </>
+      )}
+
+      {isGen && burnsFuel(item.defKey) && (
+        <>
           <div
             style={{
               marginTop: 6,
@@ -1376,25 +2057,149 @@ function SelectedInspector({
               marginTop: 6,
             }}
             onClick={() => onRefuel?.(item.id)}
+            title="Takes fuel from your depots first; the rest is bought in town"
           >
-            Refuel (+50%) — $25
+            Refuel (+{Math.round(refuelWant)}%){refuelCost > 0 ? ` — $${refuelCost}` : " from depot"}
           </button>
+          <div style={{ ...styles.row, marginTop: 6, alignItems: "center" }}>
+            <span>Auto-refuel from depot</span>
+            <select
+              value={item.autoRefuel ?? ""}
+              onChange={(e) =>
+                onSetAutoRefuel?.(item.id, e.target.value === "" ? null : Number(e.target.value))
+              }
+            >
+              <option value="">Off</option>
+              {AUTO_REFUEL_LEVELS.map((lvl) => (
+                <option key={lvl} value={lvl}>
+                  Below {lvl}%
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      {isDepot(item.defKey) && (
+        <>
+          <div style={styles.row}>
+            <span>Stock</span>
+            <b>
+              {Math.round(item.stock ?? 0)} / {DEPOT_CAPACITY}
+            </b>
+          </div>
+          <div style={styles.row}>
+            <span>Fuel price today</span>
+            <b>${fuelPrice(dayNum).toFixed(2)} / unit</b>
+          </div>
+          {fuelOrders.map((o) => (
+            <div key={o.id} style={{ ...styles.row, fontSize: 12, opacity: 0.85 }}>
+              <span>🚚 {o.amount} units on the way</span>
+              <span>
+                Day {o.arriveDay} {fmtClock(o.arriveMin)}
+              </span>
+            </div>
+          ))}
+          <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+            {FUEL_ORDER_SIZES.map((amount) => (
+              <button
+                key={amount}
+                type="button"
+                style={styles.smallBtn}
+                disabled={amount > depotSpace(item, fuelOrders)}
+                onClick={() => onOrderFuel?.(item.id, amount)}
+                title="Paid now at today's price; the truck takes a few hours"
+              >
+                Order {amount} — ${orderCost(amount, dayNum)}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {isVendor(item.defKey) && (
+        <>
+          <div style={styles.row}>
+            <span>Stock</span>
+            <b style={{ color: (item.stock ?? 0) < 1 ? "#ff6b6b" : undefined }}>
+              {Math.round(item.stock ?? 0)} / {stockMax(item.defKey)}
+              {vendorOpen(item, powerMap) ? "" : " (closed)"}
+            </b>
+          </div>
+          <div style={styles.row}>
+            <span>Price</span>
+            <b>${(def.price ?? 0).toFixed(2)} / person (${salePrice(item.defKey).toFixed(2)} a group)</b>
+          </div>
+          <div style={styles.row}>
+            <span>Serves</span>
+            <b>~{def.serviceRate ?? 0} groups / hour</b>
+          </div>
+          <div style={styles.row}>
+            <span>Queue</span>
+            <b>
+              {queue} / {def.capacity ?? AMENITY_SLOTS}
+            </b>
+          </div>
+          <div style={styles.row}>
+            <span>Sold today</span>
+            <b>
+              {salesToday.length} • ${salesToday.reduce((sum, s) => sum + s.amount, 0).toFixed(2)}
+            </b>
+          </div>
           <button
             type="button"
-            style={{
-              ...styles.smallBtn,
-              marginTop: 6,
-            }}
-            onClick={() => onConnectStart?.(item.id)}
-            title="Connect to a device (press C)"
+            style={{ ...styles.smallBtn, marginTop: 6 }}
+            disabled={restockCost(item) <= 0}
+            onClick={() => onRestock?.(item.id)}
+            title="Buy a full stock back in at wholesale"
           >
-            {connectActive
-              ? "Connecting… click a device"
-              : "Connect"}
+            Restock — ${restockCost(item).toFixed(2)}
           </button>
         </>
       )}
 
+      {cables.length > 0 && (
+        <div style={{ marginTop: 8, fontSize: 12 }}>
+          {cables.map((w) => {
+            const other = w.fromId === item.id ? w.toId : w.fromId;
+            const next: CableGauge = w.gauge === "thin" ? "thick" : "thin";
+            const extra = w.length * (CABLE_GAUGES[next].costPerTile - CABLE_GAUGES[w.gauge].costPerTile);
+            return (
+              <div key={w.id} style={{ ...styles.row, alignItems: "center" }}>
+                <span>
+                  🔌 {nameOf(other)} • {w.length} tiles {CABLE_GAUGES[w.gauge].name.toLowerCase()} •{" "}
+                  −{Math.round(w.length * CABLE_GAUGES[w.gauge].lossPerTile * 100)}%
+                </span>
+                <button
+                  type="button"
+                  style={{ ...styles.smallBtn, padding: "0 6px" }}
+                  onClick={() => onSetGauge?.(w.id, next)}
+                  title={extra > 0 ? `Re-pull as ${next} cable for $${extra}` : `Swap for ${next} cable (no refund)`}
+                >
+                  {extra > 0 ? `→ ${CABLE_GAUGES[next].name} $${extra}` : `→ ${CABLE_GAUGES[next].name}`}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canConnect && (
+        <button
+          type="button"
+          style={{
+            ...styles.smallBtn,
+            marginTop: 6,
+          }}
+          onClick={() => onConnectStart?.(item.id)}
+          title="Run a cable to another generator, box or device (press C)"
+        >
+          {connectActive
+            ? "Connecting… click a device"
+            : "Connect"}
+        </button>
+      )}
+
       <div
         style={{
           marginTop: 8,
@@ -1405,256 +2210,15 @@ function SelectedInspector({
         Rotate <b>R</b> • Delete <b>Del</b> • Nudge <b>Arrows</b>{" "}
         {isGen && (
           <>
-            • Toggle <b>F</b> • Connect <b>C</b>
+            • Toggle <b>F</b>{" "}
+          </>
+        )}
+        {canConnect && (
+          <>
+            • Connect <b>C</b>
           </>
         )}
       </div>
     </div>
   );
 }
-
-// Drawing helpers
-function drawItem(
-  ctx: CanvasRenderingContext2D,
-  it: PlacedItem,
-  isSelected: boolean,
-  powered: boolean,
-  t: number
-) {
-  const x = it.x * TILE;
-  const y = it.y * TILE;
-
-  // Base outline
-  drawRect(ctx, it.x, it.y, isSelected ? "#37d6cd" : "#8aa3ff");
-
-  const isMusic =
-    it.defKey === "deck" || it.defKey.startsWith("speaker");
-
-  // Pulsing halo for powered music gear
-  if (isMusic && powered) {
-    const pulse =
-      0.3 + 0.2 * (1 + Math.sin(t * 6.28)); // ~1Hz
-    ctx.save();
-    ctx.globalAlpha = 0.25 + pulse * 0.25;
-    ctx.fillStyle = "#37d6cd";
-    ctx.beginPath();
-    ctx.arc(
-      x + TILE / 2,
-      y + TILE / 2,
-      TILE * (0.7 + 0.05 * Math.sin(t * 3.14)),
-      0,
-      Math.PI * 2
-    );
-    ctx.fill();
-    ctx.restore();
-  }
-
-  // Icon
-  ctx.save();
-  ctx.translate(x + TILE / 2, y + TILE / 2);
-  ctx.rotate((Math.PI / 180) * it.rot);
-  ctx.strokeStyle = "#0f113b";
-  ctx.lineWidth = 2;
-  ctx.fillStyle = "#ffffff";
-
-  if (it.defKey.startsWith("speaker")) {
-    roundRect(ctx, -12, -16, 24, 32, 4);
-    ctx.fill();
-    ctx.stroke();
-    ctx.beginPath();
-    ctx.moveTo(0, 0);
-    ctx.lineTo(18, 0);
-    ctx.strokeStyle = "#ffd166";
-    ctx.stroke();
-  } else if (it.defKey === "deck") {
-    roundRect(ctx, -18, -10, 36, 20, 3);
-    ctx.fill();
-    ctx.stroke();
-    ctx.beginPath();
-    ctx.arc(-8, 0, 5, 0, Math.PI * 2);
-    ctx.arc(8, 0, 5, 0, Math.PI * 2);
-    ctx.fillStyle = "#0f113b";
-    ctx.fill();
-  } else if (it.defKey === "light") {
-    ctx.beginPath();
-    ctx.moveTo(0, -16);
-    ctx.lineTo(0, 16);
-    ctx.strokeStyle = "#ffffff";
-    ctx.stroke();
-    ctx.beginPath();
-    ctx.arc(0, -18, 4, 0, Math.PI * 2);
-    ctx.fillStyle = "#ffd166";
-    ctx.fill();
-  } else if (it.defKey === "tent") {
-    ctx.beginPath();
-    ctx.moveTo(-16, 12);
-    ctx.lineTo(0, -12);
-    ctx.lineTo(16, 12);
-    ctx.closePath();
-    ctx.fillStyle = "#ffffff";
-    ctx.fill();
-    ctx.strokeStyle = "#0f113b";
-    ctx.stroke();
-  } else if (it.defKey === "genny") {
-    roundRect(ctx, -16, -12, 32, 24, 3);
-    ctx.fillStyle = "#ffffff";
-    ctx.fill();
-    ctx.stroke();
-    ctx.beginPath();
-    ctx.moveTo(-8, 0);
-    ctx.lineTo(0, -6);
-    ctx.lineTo(0, 6);
-    ctx.lineTo(8, 0);
-    ctx.strokeStyle = "#ff6b6b";
-    ctx.stroke();
-  }
-
-  ctx.restore();
-}
-
-function drawRect(
-  ctx: CanvasRenderingContext2D,
-  gx: number,
-  gy: number,
-  color: string
-) {
-  ctx.strokeStyle = color;
-  ctx.lineWidth = 2;
-  ctx.strokeRect(gx * TILE + 2, gy * TILE + 2, TILE - 4, TILE - 4);
-}
-
-function roundRect(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  w: number,
-  h: number,
-  r: number
-) {
-  const rr = Math.min(r, w / 2, h / 2);
-  ctx.beginPath();
-  ctx.moveTo(x + rr, y);
-  ctx.lineTo(x + w - rr, y);
-  ctx.quadraticCurveTo(x + w, y, x + w, y + rr);
-  ctx.lineTo(x + w, y + h - rr);
-  ctx.quadraticCurveTo(x + w, y + h, x + w - rr, y + h);
-  ctx.lineTo(x + rr, y + h);
-  ctx.quadraticCurveTo(x, y + h, x, y + h - rr);
-  ctx.lineTo(x, y + rr);
-  ctx.quadraticCurveTo(x, y, x + rr, y);
-  ctx.closePath();
-}
-
-// Styles
-const styles: Record<string, React.CSSProperties> = {
-  app: {
-    display: "grid",
-    gridTemplateColumns: "260px 1fr 260px",
-    gap: 12,
-    padding: 12,
-    background: "#0b0e2a",
-    color: "#e7ebff",
-    height: "100dvh",
-    boxSizing: "border-box",
-    fontFamily:
-      "Inter, ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto",
-  },
-  leftBar: {
-    background: "#141a44",
-    border: "1px solid #2b3172",
-    borderRadius: 12,
-    padding: 12,
-    overflow: "auto",
-  },
-  rightBar: {
-    background: "#141a44",
-    border: "1px solid #2b3172",
-    borderRadius: 12,
-    padding: 12,
-    overflow: "auto",
-  },
-  main: {
-    display: "flex",
-    flexDirection: "column",
-    gap: 12,
-  },
-  topBar: {
-    display: "flex",
-    alignItems: "center",
-    gap: 16,
-    padding: "8px 12px",
-    background: "#141a44",
-    border: "1px solid #2b3172",
-    borderRadius: 12,
-  } as React.CSSProperties,
-  canvas: {
-    borderRadius: 12,
-    border: "1px solid #2b3172",
-    imageRendering: "pixelated",
-    cursor: "crosshair",
-    alignSelf: "center",
-  },
-  h3: {
-    margin: 0,
-    marginBottom: 8,
-    fontSize: 14,
-    letterSpacing: 0.4,
-    textTransform: "uppercase",
-    color: "#9fb0ff",
-  },
-  paletteBtn: {
-    width: "100%",
-    textAlign: "left",
-    background: "#1a2257",
-    color: "#e7ebff",
-    border: "1px solid #394184",
-    borderRadius: 10,
-    padding: 10,
-    marginBottom: 8,
-    cursor: "pointer",
-  },
-  smallBtn: {
-    background: "#1a2257",
-    color: "#e7ebff",
-    border: "1px solid #394184",
-    borderRadius: 8,
-    padding: "6px 10px",
-    cursor: "pointer",
-  },
-  card: {
-    background: "#1a2257",
-    border: "1px solid #394184",
-    borderRadius: 10,
-    padding: 12,
-  },
-  row: {
-    display: "flex",
-    justifyContent: "space-between",
-    marginTop: 6,
-  },
-  helpOverlay: {
-    position: "absolute",
-    left: 8,
-    top: 8,
-    background: "rgba(10,12,28,0.92)",
-    border: "1px solid #2b3172",
-    borderRadius: 10,
-    padding: 10,
-    color: "#e7ebff",
-    fontSize: 13,
-    maxWidth: 260,
-  },
-  toast: {
-    position: "absolute",
-    left: "50%",
-    top: 16,
-    transform: "translateX(-50%)",
-    background: "rgba(10,12,28,0.95)",
-    border: "1px solid #2b3172",
-    color: "#e7ebff",
-    borderRadius: 10,
-    padding: "8px 12px",
-    fontSize: 14,
-    animation: "fadeOut 2.2s forwards",
-  } as React.CSSProperties,
-};
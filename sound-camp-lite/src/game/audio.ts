@@ -1,5 +1,8 @@
 // src/game/audio.ts
 
+import { rng } from "./rng";
+import type { DrawShape } from "./types";
+
 export type AmbientParams = {
   vibe: number;
   noise: number;
@@ -86,9 +89,10 @@ class TinyAudio {
     const bufferSize = 2 * ctx.sampleRate;
     const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
     const data = buffer.getChannelData(0);
+    const r = rng.stream("audio");
     for (let i = 0; i < bufferSize; i++) {
       // slightly “crowd-ish” noise (a bit filtered)
-      data[i] = (Math.random() * 2 - 1) * 0.6;
+      data[i] = (r.next() * 2 - 1) * 0.6;
     }
 
     const src = ctx.createBufferSource();
@@ -333,14 +337,14 @@ class TinyAudio {
   // Public SFX helpers
   // ---------------------------------------------------------------
 
-  playPlace(kind: string) {
-    // slightly different pitch per item
+  playPlace(shape: DrawShape) {
+    // slightly different pitch per kind of item
     const base =
-      kind === "genny"
+      shape === "generator"
         ? 220
-        : kind.startsWith("speaker")
+        : shape === "speaker"
         ? 330
-        : kind === "deck"
+        : shape === "deck"
         ? 440
         : 300;
     this.oneShot({
@@ -382,6 +386,24 @@ class TinyAudio {
     }
   }
 
+  // Breaker tripping: a heavy clunk, then the generator winding down
+  playBreakerTrip() {
+    this.oneShot({
+      freqStart: 90,
+      freqEnd: 40,
+      duration: 0.09,
+      gain: 0.4,
+      type: "square",
+    });
+    this.oneShot({
+      freqStart: 180,
+      freqEnd: 60,
+      duration: 0.5,
+      gain: 0.15,
+      type: "sawtooth",
+    });
+  }
+
   playGoalComplete() {
     this.oneShot({
       freqStart: 660,
@@ -0,0 +1,229 @@
+// src/game/catalog.ts
+//
+// Item definitions are data: the base set ships as catalog/base.json and mods
+// are JSON files in the same shape that add more items. Everything else looks
+// items up in ITEM_DEFS and asks about *tags* ("speaker", "generator", …)
+// rather than specific keys, so modded items take part in scoring, goals and
+// power like the built-in ones.
+
+import baseCatalog from "./catalog/base.json";
+import type { DrawShape, ItemDef, ItemKey, SynergyRule } from "./types";
+
+export interface CatalogFile {
+  id: string;       // "base", or a mod id like "subwoofers"
+  version: string;  // free-form, recorded in saves
+  name?: string;
+  items: ItemDef[];
+  rules?: SynergyRule[]; // a rule with an existing id replaces that rule
+}
+
+// Thrown for a catalog/mod file we can't accept
+export class CatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogError";
+  }
+}
+
+const SHAPES: DrawShape[] = ["speaker", "deck", "light", "tent", "generator", "distro", "tank", "solar", "battery", "gate", "stall", "box"];
+const ID_RE = /^[a-z][a-z0-9_-]*$/;
+const KEY_RE = /^[a-z][a-z0-9_]*$/;
+
+const isNum = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+
+function validateItem(raw: unknown, at: string): ItemDef {
+  if (!raw || typeof raw !== "object") throw new CatalogError(`${at}: expected an object.`);
+  const p = raw as Partial<ItemDef>;
+  if (typeof p.key !== "string" || !KEY_RE.test(p.key)) {
+    throw new CatalogError(`${at}.key: use lowercase letters, digits and _.`);
+  }
+  if (typeof p.name !== "string" || !p.name.trim()) throw new CatalogError(`${at}.name: missing.`);
+  for (const f of ["cost", "baseVibe", "noise", "power"] as const) {
+    if (!isNum(p[f]) || p[f] < 0) throw new CatalogError(`${at}.${f}: must be a number ≥ 0.`);
+  }
+  if (p.range != null && (!isNum(p.range) || p.range < 0)) {
+    throw new CatalogError(`${at}.range: must be a number ≥ 0.`);
+  }
+  if (p.coneDeg != null && (!isNum(p.coneDeg) || p.coneDeg <= 0 || p.coneDeg > 360)) {
+    throw new CatalogError(`${at}.coneDeg: must be 1–360.`);
+  }
+  for (const f of ["capacity", "storage", "price", "serviceRate", "stock"] as const) {
+    if (p[f] != null && (!isNum(p[f]) || p[f] < 0)) {
+      throw new CatalogError(`${at}.${f}: must be a number ≥ 0.`);
+    }
+  }
+  const tags = p.tags ?? [];
+  if (!Array.isArray(tags) || tags.some((t) => typeof t !== "string")) {
+    throw new CatalogError(`${at}.tags: expected a list of strings.`);
+  }
+  const draw = p.draw ?? { shape: "box" };
+  if (!SHAPES.includes(draw.shape)) {
+    throw new CatalogError(`${at}.draw.shape: one of ${SHAPES.join(", ")}.`);
+  }
+  return {
+    key: p.key,
+    name: p.name,
+    cost: p.cost!,
+    baseVibe: p.baseVibe!,
+    noise: p.noise!,
+    power: p.power!,
+    range: p.range,
+    coneDeg: p.coneDeg,
+    capacity: p.capacity,
+    storage: p.storage,
+    price: p.price,
+    serviceRate: p.serviceRate,
+    stock: p.stock,
+    tags: [...tags],
+    draw: { shape: draw.shape, fill: draw.fill, accent: draw.accent },
+  };
+}
+
+function validateRule(raw: unknown, at: string): SynergyRule {
+  if (!raw || typeof raw !== "object") throw new CatalogError(`${at}: expected an object.`);
+  const r = raw as Partial<SynergyRule>;
+  if (typeof r.id !== "string" || !r.id) throw new CatalogError(`${at}.id: missing.`);
+  if (typeof r.label !== "string" || !r.label) throw new CatalogError(`${at}.label: missing.`);
+  if (typeof r.source !== "string" || typeof r.target !== "string") {
+    throw new CatalogError(`${at}: source and target must be tags.`);
+  }
+  if (!isNum(r.radius) || r.radius < 0) throw new CatalogError(`${at}.radius: must be a number ≥ 0.`);
+  if (r.stat != null && r.stat !== "vibe" && r.stat !== "noise") {
+    throw new CatalogError(`${at}.stat: "vibe" or "noise".`);
+  }
+  if (r.op !== "add" && r.op !== "mul") throw new CatalogError(`${at}.op: "add" or "mul".`);
+  if (!isNum(r.value)) throw new CatalogError(`${at}.value: must be a number.`);
+  if (r.stack !== "once" && r.stack !== "each") throw new CatalogError(`${at}.stack: "once" or "each".`);
+  if (r.maxStacks != null && (!Number.isInteger(r.maxStacks) || r.maxStacks < 1)) {
+    throw new CatalogError(`${at}.maxStacks: must be a whole number ≥ 1.`);
+  }
+  if (r.cone != null && r.cone !== "source" && r.cone !== "target") {
+    throw new CatalogError(`${at}.cone: "source" or "target".`);
+  }
+  return {
+    id: r.id,
+    label: r.label,
+    source: r.source,
+    target: r.target,
+    radius: r.radius,
+    stat: r.stat,
+    op: r.op,
+    value: r.value,
+    stack: r.stack,
+    maxStacks: r.maxStacks,
+    cone: r.cone,
+  };
+}
+
+/** Check an untrusted catalog/mod object. Throws CatalogError. */
+export function validateCatalog(raw: unknown): CatalogFile {
+  if (!raw || typeof raw !== "object") throw new CatalogError("Not an item catalog.");
+  const c = raw as Partial<CatalogFile>;
+  if (typeof c.id !== "string" || !ID_RE.test(c.id)) {
+    throw new CatalogError("id: use lowercase letters, digits, _ and -.");
+  }
+  if (typeof c.version !== "string" || !c.version) throw new CatalogError("version: missing.");
+  if (!Array.isArray(c.items) || c.items.length === 0) {
+    throw new CatalogError("items: expected a non-empty list.");
+  }
+  const items = c.items.map((it, i) => validateItem(it, `items[${i}]`));
+  const keys = new Set<string>();
+  for (const it of items) {
+    if (keys.has(it.key)) throw new CatalogError(`items: duplicate key "${it.key}".`);
+    keys.add(it.key);
+  }
+  if (c.rules != null && !Array.isArray(c.rules)) throw new CatalogError("rules: expected a list.");
+  const rules = (c.rules ?? []).map((r, i) => validateRule(r, `rules[${i}]`));
+  return { id: c.id, version: c.version, name: c.name, items, rules };
+}
+
+export function parseCatalogFile(text: string): CatalogFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new CatalogError("File is not valid JSON.");
+  }
+  return validateCatalog(raw);
+}
+
+// ---------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------
+
+// Live item table; filled from base.json below and extended by mods
+export const ITEM_DEFS: Record<ItemKey, ItemDef> = {};
+
+const loaded: CatalogFile[] = [];
+const owner = new Map<ItemKey, string>(); // item key -> catalog id
+
+/**
+ * Add a catalog's items. Re-registering the same id replaces its items;
+ * a mod can't redefine keys owned by another catalog.
+ */
+export function registerCatalog(file: CatalogFile) {
+  for (const it of file.items) {
+    const by = owner.get(it.key);
+    if (by && by !== file.id) {
+      throw new CatalogError(`Item "${it.key}" is already defined by "${by}".`);
+    }
+  }
+  removeCatalog(file.id);
+  for (const it of file.items) {
+    ITEM_DEFS[it.key] = it;
+    owner.set(it.key, file.id);
+  }
+  loaded.push(file);
+}
+
+function removeCatalog(id: string) {
+  const i = loaded.findIndex((c) => c.id === id);
+  if (i < 0) return;
+  for (const it of loaded[i].items) {
+    delete ITEM_DEFS[it.key];
+    owner.delete(it.key);
+  }
+  loaded.splice(i, 1);
+}
+
+// Remove a mod's items (the base catalog always stays)
+export function unregisterCatalog(id: string) {
+  if (id !== "base") removeCatalog(id);
+}
+
+export const loadedCatalogs = (): readonly CatalogFile[] => loaded;
+
+// Synergy rules from every loaded catalog; later catalogs override by id
+export function activeRules(): SynergyRule[] {
+  const byId = new Map<string, SynergyRule>();
+  for (const c of loaded) for (const r of c.rules ?? []) byId.set(r.id, r);
+  return [...byId.values()];
+}
+
+// Which catalog an item key comes from (undefined for unknown keys)
+export const catalogOf = (key: ItemKey) => owner.get(key);
+
+/** Recorded in saves, e.g. "base@1.0.0+subwoofers@0.2.0". */
+export function catalogVersion(): string {
+  return loaded.map((c) => `${c.id}@${c.version}`).join("+");
+}
+
+// Catalog ids named in a catalogVersion() string that aren't loaded right now
+export function missingCatalogs(version: string): string[] {
+  const have = new Set(loaded.map((c) => c.id));
+  return version
+    .split("+")
+    .map((part) => part.split("@")[0])
+    .filter((id) => id && !have.has(id));
+}
+
+// ---------------------------------------------------------------
+// Tag helpers
+// ---------------------------------------------------------------
+
+export const hasTag = (key: ItemKey, tag: string) =>
+  ITEM_DEFS[key]?.tags.includes(tag) ?? false;
+
+export const isGenerator = (key: ItemKey) => hasTag(key, "generator");
+
+registerCatalog(validateCatalog(baseCatalog));
@@ -0,0 +1,425 @@
+// src/game/commands.ts
+//
+// Every player action goes through applyCommand(). The UI, the replay
+// recorder and replay playback all share this single path, so a recorded
+// command log reproduces a session exactly.
+
+import {
+  GRID_H,
+  GRID_W,
+  ITEM_DEFS,
+  FUEL_TOWN_MARKUP,
+  REFUEL_AMOUNT,
+  SELL_BACK_RATIO,
+  CABLE_GAUGES,
+  POWER_MODELS,
+  TICKET_PRICE_MAX,
+  WIRE_BASE_COST,
+} from "./constants";
+import { isGenerator } from "./catalog";
+import { breakerOverload, canPlace, clamp, nextRot, withStartState } from "./logic";
+import { isPowerNode, trippedGroup, wouldCreateCycle } from "./powerGraph";
+import { deliveryTime, depotSpace, drawFuel, fuelPrice, isDepot, orderCost } from "./fuel";
+import { book } from "./ledger";
+import type { SimState } from "./sim";
+import { isVendor, restockCost, stockMax } from "./vendors";
+import { crossesTile, rerouteWires, routeCable } from "./routing";
+import type { CableGauge, ItemKey, PlacedItem, PowerModel, Tile, Wire } from "./types";
+
+export type Command =
+  | { type: "place"; id: string; defKey: ItemKey; x: number; y: number }
+  | { type: "remove"; id: string }
+  | { type: "rotate"; id: string }
+  | { type: "nudge"; id: string; dx: number; dy: number }
+  | { type: "wire"; id: string; fromId: string; toId: string; gauge: CableGauge }
+  | { type: "routeWire"; id: string; waypoints: Tile[] }
+  | { type: "setGauge"; id: string; gauge: CableGauge }
+  | { type: "toggleGen"; id: string }
+  | { type: "refuel"; id: string }
+  | { type: "restock"; id: string }
+  | { type: "resetBreaker"; id: string }
+  | { type: "setAutoRefuel"; id: string; threshold: number | null }
+  | { type: "orderFuel"; id: string; depotId: string; amount: number }
+  | { type: "setRunning"; running: boolean }
+  | { type: "setPowerModel"; model: PowerModel }
+  | { type: "setTicketPrice"; price: number }
+  // undo/redo: layout snapshot + the money change to reverse/reapply exactly
+  | { type: "restore"; items: PlacedItem[]; wires: Wire[]; moneyDelta: number }
+  // a share code: sells back the current layout and buys this one
+  | { type: "pasteLayout"; items: PlacedItem[]; wires: Wire[] };
+
+export interface CommandResult {
+  state: SimState;
+  error?: string; // set when the command was rejected; state is unchanged
+}
+
+const reject = (state: SimState, error: string): CommandResult => ({ state, error });
+
+export function applyCommand(state: SimState, cmd: Command): CommandResult {
+  const { items, wires, money } = state;
+
+  switch (cmd.type) {
+    case "place": {
+      const def = ITEM_DEFS[cmd.defKey];
+      if (!def) return reject(state, `Unknown item "${cmd.defKey}".`);
+      if (!canPlace(items, cmd.x, cmd.y)) return reject(state, "Can't place there.");
+      if (money < def.cost) return reject(state, "Not enough money!");
+      const item = withStartState({ id: cmd.id, defKey: def.key, x: cmd.x, y: cmd.y, rot: 0 });
+      const nextItems = [...items, item];
+      // cables running across the tile move around the new item
+      const nextWires = rerouteWires(nextItems, state.walkways, wires, (w) =>
+        crossesTile(w, cmd.x, cmd.y)
+      );
+      if (!nextWires) return reject(state, "That would cut off a cable.");
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "capex", amount: -def.cost, itemId: cmd.id, note: def.name }]),
+          items: nextItems,
+          wires: nextWires,
+        },
+      };
+    }
+
+    case "remove": {
+      const it = items.find((i) => i.id === cmd.id);
+      if (!it) return reject(state, "Item not found.");
+      if (state.fuelOrders.some((o) => o.depotId === it.id)) {
+        return reject(state, "A fuel delivery is on its way to this depot.");
+      }
+      const def = ITEM_DEFS[it.defKey];
+      const refund = Math.floor(def.cost * SELL_BACK_RATIO);
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "refunds", amount: refund, itemId: it.id, note: def.name }]),
+          items: items.filter((i) => i.id !== cmd.id),
+          wires: wires.filter((w) => w.fromId !== cmd.id && w.toId !== cmd.id),
+        },
+      };
+    }
+
+    case "rotate":
+      return {
+        state: {
+          ...state,
+          items: items.map((i) => (i.id === cmd.id ? { ...i, rot: nextRot(i.rot) } : i)),
+        },
+      };
+
+    case "nudge": {
+      const it = items.find((i) => i.id === cmd.id);
+      if (!it) return reject(state, "Item not found.");
+      const nx = clamp(it.x + cmd.dx, 0, GRID_W - 1);
+      const ny = clamp(it.y + cmd.dy, 0, GRID_H - 1);
+      if (!canPlace(items.filter((i) => i.id !== it.id), nx, ny)) {
+        return reject(state, "Tile occupied.");
+      }
+      const moved = items.map((i) => (i.id === it.id ? { ...i, x: nx, y: ny } : i));
+      const nextWires = rerouteWires(moved, state.walkways, wires, (w) =>
+        w.fromId === it.id || w.toId === it.id || crossesTile(w, nx, ny)
+      );
+      if (!nextWires) return reject(state, "A cable can't reach there.");
+      return { state: { ...state, items: moved, wires: nextWires } };
+    }
+
+    case "wire": {
+      if (state.powerModel === "radius") {
+        return reject(state, "Radius power mode — no cables needed.");
+      }
+      const from = items.find((i) => i.id === cmd.fromId);
+      const to = items.find((i) => i.id === cmd.toId);
+      if (!from || !to || from === to || !isPowerNode(from.defKey) || !isPowerNode(to.defKey)) {
+        return reject(state, "Can't wire that.");
+      }
+      if (wouldCreateCycle(wires, from.id, to.id)) {
+        return reject(state, "Those are already connected — a cable there would make a loop.");
+      }
+      const path = routeCable(items, state.walkways, from, to);
+      if (!path) return reject(state, "No clear route for a cable — move something out of the way.");
+      const length = path.length - 1;
+      const gauge = CABLE_GAUGES[cmd.gauge];
+      if (!gauge) return reject(state, "Unknown cable gauge.");
+      const cost = WIRE_BASE_COST + length * gauge.costPerTile;
+      if (money < cost) {
+        return reject(state, `Need $${cost} to wire (${length} tiles of ${gauge.name.toLowerCase()} cable).`);
+      }
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "wires", amount: -cost, note: `${length} tiles ${gauge.name.toLowerCase()}` }]),
+          wires: [
+            ...wires,
+            {
+              id: cmd.id,
+              fromId: from.id,
+              toId: to.id,
+              length,
+              path,
+              waypoints: [],
+              gauge: cmd.gauge,
+            },
+          ],
+        },
+      };
+    }
+
+    case "routeWire": {
+      const w = wires.find((x) => x.id === cmd.id);
+      const from = items.find((i) => i.id === w?.fromId);
+      const to = items.find((i) => i.id === w?.toId);
+      if (!w || !from || !to) return reject(state, "Cable not found.");
+      const path = routeCable(items, state.walkways, from, to, cmd.waypoints);
+      if (!path) return reject(state, "The cable can't be routed that way.");
+      const length = path.length - 1;
+      // pay for any extra cable; shortening a run doesn't refund it
+      const cost = Math.max(0, length - w.length) * CABLE_GAUGES[w.gauge].costPerTile;
+      if (money < cost) return reject(state, `Need $${cost} for the extra cable.`);
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "wires", amount: -cost, note: "Re-route" }]),
+          wires: wires.map((x) =>
+            x.id === w.id ? { ...x, path, waypoints: cmd.waypoints, length } : x
+          ),
+        },
+      };
+    }
+
+    case "setGauge": {
+      const w = wires.find((x) => x.id === cmd.id);
+      if (!w) return reject(state, "Cable not found.");
+      const to = CABLE_GAUGES[cmd.gauge];
+      if (!to) return reject(state, "Unknown cable gauge.");
+      // re-pulling a run costs the price difference; going thinner isn't refunded
+      const cost = Math.max(0, w.length * (to.costPerTile - CABLE_GAUGES[w.gauge].costPerTile));
+      if (money < cost) return reject(state, `Need $${cost} for ${to.name.toLowerCase()} cable.`);
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "wires", amount: -cost, note: `Re-pull as ${to.name.toLowerCase()}` }]),
+          wires: wires.map((x) => (x.id === w.id ? { ...x, gauge: cmd.gauge } : x)),
+        },
+      };
+    }
+
+    case "toggleGen": {
+      const gen = items.find((i) => i.id === cmd.id);
+      if (!gen || !isGenerator(gen.defKey)) return reject(state, "Only generators can be switched on and off.");
+      if (gen.tripped) {
+        return reject(state, "The breaker has tripped — reset it first.");
+      }
+      return {
+        state: {
+          ...state,
+          items: items.map((i) => (i.id === cmd.id ? { ...i, on: !i.on } : i)),
+        },
+      };
+    }
+
+    case "refuel": {
+      // From the depots first; whatever they can't cover is bought in town
+      const gen = items.find((i) => i.id === cmd.id);
+      if (!gen) return reject(state, "Item not found.");
+      const want = Math.min(REFUEL_AMOUNT, 100 - (gen.fuel ?? 100));
+      if (want <= 0) return reject(state, "The tank is already full.");
+      const fromDepot = drawFuel(items, gen.id, want);
+      const short = want - fromDepot.got;
+      const cost = Math.round(short * fuelPrice(state.dayNum) * FUEL_TOWN_MARKUP);
+      if (money < cost) return reject(state, "Not enough money to refuel!");
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "fuel", amount: -cost, itemId: gen.id, note: "Refuel in town" }]),
+          items: fromDepot.items.map((i) =>
+            i.id === gen.id ? { ...i, fuel: Math.min(100, (i.fuel ?? 0) + short) } : i
+          ),
+        },
+      };
+    }
+
+    case "restock": {
+      const it = items.find((i) => i.id === cmd.id);
+      if (!it || !isVendor(it.defKey)) return reject(state, "Only vendors can be restocked.");
+      const cost = restockCost(it);
+      if (cost <= 0) return reject(state, "Already fully stocked.");
+      if (money < cost) return reject(state, "Not enough money to restock!");
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "stock", amount: -cost, itemId: it.id, note: ITEM_DEFS[it.defKey].name }]),
+          items: items.map((i) => (i.id === it.id ? { ...i, stock: stockMax(i.defKey) } : i)),
+        },
+      };
+    }
+
+    case "setAutoRefuel":
+      return {
+        state: {
+          ...state,
+          items: items.map((i) =>
+            i.id === cmd.id ? { ...i, autoRefuel: cmd.threshold ?? undefined } : i
+          ),
+        },
+      };
+
+    case "orderFuel": {
+      const depot = items.find((i) => i.id === cmd.depotId);
+      if (!depot || !isDepot(depot.defKey)) return reject(state, "Fuel has to go to a depot.");
+      if (!(cmd.amount > 0)) return reject(state, "Order at least some fuel.");
+      if (cmd.amount > depotSpace(depot, state.fuelOrders)) {
+        return reject(state, "The depot tank can't hold that much.");
+      }
+      const cost = orderCost(cmd.amount, state.dayNum);
+      if (money < cost) return reject(state, "Not enough money for that order!");
+      const order = {
+        id: cmd.id,
+        depotId: depot.id,
+        amount: cmd.amount,
+        ...deliveryTime(state.dayNum, state.timeMin),
+      };
+      return {
+        state: {
+          ...state,
+          ...book(state, [{ kind: "fuel", amount: -cost, itemId: depot.id, note: `${cmd.amount} units delivered` }]),
+          fuelOrders: [...state.fuelOrders, order],
+        },
+      };
+    }
+
+    case "resetBreaker": {
+      if (!items.find((i) => i.id === cmd.id)?.tripped) return reject(state, "That breaker hasn't tripped.");
+      const over = breakerOverload(items, wires, cmd.id);
+      if (over > 0) return reject(state, `Still ${over} over capacity — unplug something first.`);
+      // Every generator that tripped with this one comes back together
+      const group = trippedGroup(items, wires, cmd.id);
+      return {
+        state: {
+          ...state,
+          items: items.map((i) =>
+            group.has(i.id) ? { ...i, on: true, tripped: false, trippedOver: undefined } : i
+          ),
+        },
+      };
+    }
+
+    case "setRunning":
+      // Run state lives in the UI loop; recorded so playback shows the pauses
+      return { state };
+
+    case "setPowerModel":
+      if (!POWER_MODELS.includes(cmd.model)) {
+        return reject(state, `Power model must be one of ${POWER_MODELS.join(", ")}.`);
+      }
+      return { state: { ...state, powerModel: cmd.model } };
+
+    case "setTicketPrice":
+      if (!Number.isFinite(cmd.price) || cmd.price < 0 || cmd.price > TICKET_PRICE_MAX) {
+        return reject(state, `Tickets cost $0–${TICKET_PRICE_MAX}.`);
+      }
+      return { state: { ...state, ticketPrice: cmd.price } };
+
+    case "restore":
+      // No clamping: undoing a sell-back or redoing a purchase pays in full
+      if (money + cmd.moneyDelta < 0) {
+        return reject(state, `Not enough money — that needs $${-cmd.moneyDelta}.`);
+      }
+      if (state.fuelOrders.some((o) => !cmd.items.some((i) => i.id === o.depotId))) {
+        return reject(state, "A fuel delivery is on its way to a depot this would remove.");
+      }
+      return {
+        state: {
+          ...state,
+          items: cmd.items,
+          wires: cmd.wires,
+          ...book(state, [{ kind: "undo", amount: cmd.moneyDelta }]),
+        },
+      };
+
+    case "pasteLayout": {
+      const refunds = items.map((it) => {
+        const def = ITEM_DEFS[it.defKey];
+        return { kind: "refunds" as const, amount: Math.floor(def.cost * SELL_BACK_RATIO), itemId: it.id, note: def.name };
+      });
+      const capex = cmd.items.map((it) => {
+        const def = ITEM_DEFS[it.defKey];
+        return { kind: "capex" as const, amount: -def.cost, itemId: it.id, note: def.name };
+      });
+      const cabling = cmd.wires.map((w) => ({
+        kind: "wires" as const,
+        amount: -(WIRE_BASE_COST + w.length * CABLE_GAUGES[w.gauge].costPerTile),
+        note: `${w.length} tiles ${CABLE_GAUGES[w.gauge].name.toLowerCase()}`,
+      }));
+      const entries = [...refunds, ...capex, ...cabling];
+      const net = entries.reduce((sum, e) => sum + e.amount, 0);
+      if (money + net < 0) return reject(state, `Not enough money — that layout costs $${-net} after selling this one back.`);
+      // Deliveries to depots that are gone are turned back, and anyone
+      // heading for a removed item picks something else
+      const kept = new Set(cmd.items.map((i) => i.id));
+      const population = {
+        ...state.population,
+        agents: state.population.agents.map((a) =>
+          a.itemId && !kept.has(a.itemId) ? { ...a, doing: null, target: null, itemId: null, thinkAt: 0 } : a
+        ),
+      };
+      return {
+        state: {
+          ...state,
+          ...book(state, entries),
+          items: cmd.items,
+          wires: cmd.wires,
+          fuelOrders: state.fuelOrders.filter((o) => kept.has(o.depotId)),
+          population,
+        },
+      };
+    }
+  }
+}
+
+// Commands that change the layout and should be undoable
+export function isUndoable(cmd: Command) {
+  // Scenario settings and pricing sit outside the layout history, a fuel
+  // truck can't be called back once it's ordered, and fuel or stock that's
+  // been bought may already be used up
+  return (
+    cmd.type !== "setRunning" &&
+    cmd.type !== "refuel" &&
+    cmd.type !== "restock" &&
+    cmd.type !== "setPowerModel" &&
+    cmd.type !== "setTicketPrice" &&
+    cmd.type !== "orderFuel" &&
+    cmd.type !== "restore" &&
+    cmd.type !== "pasteLayout"
+  );
+}
+
+// Short human label for the history list
+export function describeCommand(cmd: Command, before: SimState): string {
+  const nameOf = (id: string) => {
+    const it = before.items.find((i) => i.id === id);
+    return it ? ITEM_DEFS[it.defKey].name : "item";
+  };
+  switch (cmd.type) {
+    case "place": return `Place ${ITEM_DEFS[cmd.defKey].name}`;
+    case "remove": return `Remove ${nameOf(cmd.id)}`;
+    case "rotate": return `Rotate ${nameOf(cmd.id)}`;
+    case "nudge": return `Move ${nameOf(cmd.id)}`;
+    case "wire": return `Wire ${nameOf(cmd.fromId)} → ${nameOf(cmd.toId)}`;
+    case "toggleGen": {
+      const g = before.items.find((i) => i.id === cmd.id);
+      return `Generator ${g?.on ? "off" : "on"}`;
+    }
+    case "routeWire": return "Reroute cable";
+    case "setGauge": return `${CABLE_GAUGES[cmd.gauge].name} cable`;
+    case "refuel": return "Refuel generator";
+    case "restock": return `Restock ${nameOf(cmd.id)}`;
+    case "resetBreaker": return "Reset breaker";
+    case "setAutoRefuel": return cmd.threshold == null ? "Auto-refuel off" : `Auto-refuel below ${cmd.threshold}%`;
+    case "orderFuel": return `Order ${cmd.amount} fuel`;
+    case "setRunning": return cmd.running ? "Play" : "Pause";
+    case "setPowerModel": return `Power: ${cmd.model}`;
+    case "setTicketPrice": return `Tickets: $${cmd.price.toFixed(2)}`;
+    case "restore": return "Restore";
+    case "pasteLayout": return "Paste layout";
+  }
+}
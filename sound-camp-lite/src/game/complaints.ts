@@ -0,0 +1,126 @@
+// src/game/complaints.ts
+//
+// Noise complaints. At night, every dB a neighbour zone hears over its limit
+// adds complaint pressure; quiet spells let it drain. Pressure climbs
+// COMPLAINT_LADDER — warnings, then fines, then a curfew that caps speaker
+// output until morning. Pure like the rest of the engine: sim.ts calls
+// stepComplaints() once per step and turns the incidents into events.
+
+import {
+  COMPLAINT_DECAY_SEC,
+  COMPLAINT_LADDER,
+  COMPLAINT_PER_DB_SEC,
+  CURFEW_SPEAKER_CAP,
+  INCIDENT_LOG_LIMIT,
+  NIGHT_END_MIN,
+  NIGHT_START_MIN,
+} from "./constants";
+import type { BoundaryLevel } from "./noise";
+
+export type IncidentKind = "warning" | "fine" | "curfew" | "curfewLifted";
+
+export interface Incident {
+  day: number;
+  min: number;    // minute of day it happened
+  kind: IncidentKind;
+  zone?: string;  // neighbour zone name
+  db?: number;    // what they heard
+  fine: number;   // $ deducted (0 for warnings)
+  message: string;
+}
+
+export interface ComplaintState {
+  pressure: number;
+  stage: number;      // ladder steps reached tonight
+  curfew: boolean;    // speakers capped until NIGHT_END_MIN
+  night: boolean;     // was it night on the previous step
+  incidents: Incident[]; // newest last, bounded
+}
+
+export const initialComplaints = (): ComplaintState => ({
+  pressure: 0,
+  stage: 0,
+  curfew: false,
+  night: false,
+  incidents: [],
+});
+
+export const isNight = (min: number) => min >= NIGHT_START_MIN || min < NIGHT_END_MIN;
+
+// Speaker output multiplier for scoring (1 = no limiter)
+export const speakerCap = (c: ComplaintState) => (c.curfew ? CURFEW_SPEAKER_CAP : 1);
+
+export interface ComplaintStep {
+  complaints: ComplaintState;
+  fine: number;
+  incidents: Incident[]; // raised during this step
+}
+
+export function stepComplaints(
+  c: ComplaintState,
+  levels: BoundaryLevel[],
+  dayNum: number,
+  timeMin: number,
+  dt: number
+): ComplaintStep {
+  const night = isNight(timeMin);
+  const raised: Incident[] = [];
+  const at = { day: dayNum, min: Math.floor(timeMin) };
+
+  // Morning: neighbours go to work, the slate is wiped
+  if (!night) {
+    if (c.curfew) {
+      raised.push({ ...at, kind: "curfewLifted", fine: 0, message: "☀️ Morning — curfew lifted." });
+    }
+    if (!c.night && !c.curfew && c.pressure === 0 && c.stage === 0) {
+      return { complaints: c, fine: 0, incidents: [] };
+    }
+    return finish({ ...c, pressure: 0, stage: 0, curfew: false, night }, raised);
+  }
+
+  // Night: pressure from the worst zone (or decay when everyone is happy)
+  const worst = levels.reduce<BoundaryLevel | null>(
+    (w, l) => (!w || l.excess > w.excess ? l : w),
+    null
+  );
+  const over = worst && worst.excess > 0 ? worst.excess : 0;
+  const top = COMPLAINT_LADDER[COMPLAINT_LADDER.length - 1].at;
+  const pressure = over
+    ? Math.min(top, c.pressure + over * COMPLAINT_PER_DB_SEC * dt)
+    : Math.max(0, c.pressure - COMPLAINT_DECAY_SEC * dt);
+
+  let stage = c.stage;
+  let curfew = c.curfew;
+  while (stage < COMPLAINT_LADDER.length && pressure >= COMPLAINT_LADDER[stage].at) {
+    const step = COMPLAINT_LADDER[stage];
+    stage++;
+    const who = worst!.zone.name;
+    const db = Math.round(worst!.db);
+    if (step.kind === "curfew") curfew = true;
+    raised.push({
+      ...at,
+      kind: step.kind,
+      zone: who,
+      db,
+      fine: step.fine,
+      message:
+        step.kind === "warning"
+          ? `📢 ${stage === 1 ? "Warning" : "Final warning"} from ${who} (${db} dB)`
+          : step.kind === "fine"
+          ? `💸 Noise fine: $${step.fine} (${who}, ${db} dB)`
+          : `🚫 Curfew! $${step.fine} fine, speakers limited until morning`,
+    });
+  }
+
+  return finish({ ...c, pressure, stage, curfew, night }, raised);
+}
+
+function finish(c: ComplaintState, raised: Incident[]): ComplaintStep {
+  if (raised.length === 0) return { complaints: c, fine: 0, incidents: [] };
+  const incidents = [...c.incidents, ...raised].slice(-INCIDENT_LOG_LIMIT);
+  return {
+    complaints: { ...c, incidents },
+    fine: raised.reduce((sum, i) => sum + i.fine, 0),
+    incidents: raised,
+  };
+}
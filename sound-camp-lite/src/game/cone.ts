@@ -0,0 +1,52 @@
+// src/game/cone.ts
+//
+// Directional sound. An item with `coneDeg` faces along its rotation
+// (rot 0 = right, clockwise like the canvas) and only projects into a wedge
+// of that width; everything else is omnidirectional.
+
+import { GRID_H, GRID_W, ITEM_DEFS } from "./constants";
+import type { PlacedItem } from "./types";
+
+// Share of a speaker's strength that leaks behind/beside the cone
+export const CONE_BACKSPILL = 0.25;
+export const CONE_BACKSPILL_DB = -10 * Math.log10(CONE_BACKSPILL); // ≈ 6 dB quieter
+
+export function facing(rot: number): { dx: number; dy: number } {
+  const a = (rot * Math.PI) / 180;
+  return { dx: Math.cos(a), dy: Math.sin(a) };
+}
+
+/** Is tile (x, y) inside `it`'s cone? Always true for items without one. */
+export function inCone(it: PlacedItem, x: number, y: number): boolean {
+  const cone = ITEM_DEFS[it.defKey]?.coneDeg;
+  if (!cone || cone >= 360) return true;
+  const vx = x - it.x;
+  const vy = y - it.y;
+  const len = Math.hypot(vx, vy);
+  if (len === 0) return true;
+  const f = facing(it.rot);
+  const cos = (vx * f.dx + vy * f.dy) / len;
+  // small epsilon so tiles exactly on the edge count (e.g. diagonals of a 90° cone)
+  return cos >= Math.cos((cone / 2) * (Math.PI / 180)) - 1e-9;
+}
+
+/**
+ * Fraction of the cone (tiles within range) that lands on the site. Aiming
+ * at the map edge wastes the speaker and sends its sound to the neighbours.
+ */
+export function coneCoverage(it: PlacedItem): number {
+  const def = ITEM_DEFS[it.defKey];
+  if (!def?.coneDeg) return 1;
+  const r = def.range ?? 3;
+  let total = 0;
+  let onSite = 0;
+  for (let y = it.y - r; y <= it.y + r; y++) {
+    for (let x = it.x - r; x <= it.x + r; x++) {
+      if (x === it.x && y === it.y) continue;
+      if (Math.hypot(x - it.x, y - it.y) > r || !inCone(it, x, y)) continue;
+      total++;
+      if (x >= 0 && y >= 0 && x < GRID_W && y < GRID_H) onSite++;
+    }
+  }
+  return total ? onSite / total : 1;
+}
@@ -1,25 +1,143 @@
 // src/game/constants.ts
-import type { ItemDef, ItemKey } from "./types";
-
+import type { CableGauge, DayPhase, NeighbourZone, Need, PowerModel, Tile, Walkway } from "./types";
 
 export const TILE = 48;
 export const GRID_W = 20;
 export const GRID_H = 12;
 export const START_MONEY = 500;
+export const POWER_MODELS: PowerModel[] = ["wired", "radius", "hybrid"];
 
 // NEW: generator capability + fuel drain tuning
-export const GEN_CAPACITY = 6;            // total power units a genny can supply
+export const GEN_CAPACITY = 6;            // power units a generator supplies unless its def says otherwise
 export const GEN_BASE_FUEL_DRAIN = 0.4;   // % fuel per second when ON with no load
 export const GEN_FUEL_PER_POWER = 0.8;    // extra % fuel per second per power unit load
 
-export const ITEM_DEFS: Record<ItemKey, ItemDef> = {
-  speaker_s: { key: "speaker_s", name: "Small Speaker", cost: 50,  baseVibe: 6,  noise: 2, power: 1, range: 3, coneDeg: 90 },
-  speaker_l: { key: "speaker_l", name: "Large Speaker",  cost: 120, baseVibe: 12, noise: 4, power: 2, range: 3, coneDeg: 120 },
-  deck:      { key: "deck",      name: "DJ Deck",        cost: 150, baseVibe: 10, noise: 1, power: 1, range: 3 },
-  light:     { key: "light",     name: "Light Tree",     cost: 80,  baseVibe: 5,  noise: 0, power: 1, range: 2 },
-  tent:      { key: "tent",      name: "Chill Tent",     cost: 60,  baseVibe: 4,  noise: 0, power: 0, range: 2 },
-  genny:     { key: "genny",     name: "Generator",      cost: 100, baseVibe: 0,  noise: 3, power: 0, range: 4 },
-};
+// Solar panels (energy.ts) produce between sunrise and sunset, peaking at midday
+export const SUNRISE_MIN = 6 * 60;
+export const SUNSET_MIN = 20 * 60;
+
+// Item definitions live in catalog/base.json (+ mods); see catalog.ts
+export { ITEM_DEFS } from "./catalog";
 
-export const WIRE_COST_PER_TILE = 2;   // $ per tile
+export const WIRE_COST_PER_TILE = 2;   // $ per tile (thin cable)
 export const WIRE_BASE_COST = 5;       // flat fee per link
+
+// Cable gauges: thick cable costs more per tile but loses less voltage. A
+// device gets 1 − (summed loss along its cable path) of its power; below
+// BROWNOUT_AT it browns out (vibe scales with supply), below BROWNOUT_CUTOFF
+// it won't run at all.
+export const CABLE_GAUGES: Record<CableGauge, { name: string; costPerTile: number; lossPerTile: number }> = {
+  thin: { name: "Thin", costPerTile: WIRE_COST_PER_TILE, lossPerTile: 0.012 },
+  thick: { name: "Thick", costPerTile: 5, lossPerTile: 0.004 },
+};
+export const BROWNOUT_AT = 0.95;
+export const BROWNOUT_CUTOFF = 0.6;
+
+// Cable routing (routing.ts): walkway tiles cost this many extra steps, so
+// routes go around them when there's a reasonable detour
+export const WALKWAY_ROUTE_PENALTY = 4;
+export const TRIP_HAZARD_VIBE = 2;     // vibe lost per walkway tile a cable crosses
+export const DEFAULT_WALKWAYS: Walkway[] = [
+  { id: "main", name: "Main walkway", x: 0, y: 9, w: GRID_W, h: 1 },
+];
+
+// Simulation tuning (used by the headless engine in sim.ts)
+export const GAME_MINUTES_PER_SEC = 60;        // in-game minutes per real second
+export const CROWD_PER_VIBE = 4;               // people the vibe draws to the gates = vibe * this
+export const CROWD_MAX = 500;
+
+// Crowd agents (crowd.ts). One agent stands for PEOPLE_PER_AGENT people; the
+// vibe decides how many come, their needs decide how many are happy.
+export const PEOPLE_PER_AGENT = 4;
+export const CROWD_ENTRY: Tile = { x: 0, y: 9 }; // where a new camp's entrance gate stands (main walkway)
+export const AGENT_SPEED = 8;                 // tiles per second (an in-game hour)
+export const AGENT_ARRIVALS_PER_HOUR = 30;    // at an empty camp; slows as it fills to what the vibe draws
+export const AGENT_STAY_HOURS = [12, 36];     // how long a visit lasts (in-game hours)
+export const AGENT_GIVE_UP_HOURS = 2;         // with a need maxed out before going home
+export const AGENT_THINK_MIN = 20;            // in-game minutes between re-plans
+export const AGENT_DISTANCE_COST = 0.03;      // utility lost per tile to walk
+export const AGENT_DANCE_VIBE = 0.02;         // utility per point of vibe on a dance spot
+export const AMENITY_SLOTS = 4;               // agents an amenity serves at once unless its def says otherwise
+export const TILE_CAPACITY = 4;               // agents that fit on one tile; the rest queue to get in
+export const WALKWAY_WALK_SPEED = 1.5;        // walking speed on walkways vs. open ground
+export const AGENT_SEPARATION = 0.3;          // agents keep this far apart (tiles)
+export const QUEUE_SQUEEZE_PER_HOUR = 1;      // chance per in-game hour a queueing agent squeezes onto a full tile
+export const CONGESTION_SMOOTH_HOURS = 0.5;   // how quickly the congestion map follows the queues
+export const CONGESTION_AT = 1;               // average agents queueing for a tile to call it a bottleneck
+export const CONGESTION_VIBE = 1;             // vibe lost per bottleneck tile
+export const PARTY_START_MIN = 18 * 60;
+export const SLEEP_START_MIN = 2 * 60;
+export const WAKE_MIN = 9 * 60;
+// How fast each need grows per in-game hour in each part of the day (0..1 scale)
+export const NEED_RATES: Record<DayPhase, Record<Need, number>> = {
+  day: { dance: 0.1, rest: 0.08, toilet: 0.12, drink: 0.15, food: 0.08, sleep: 0 },
+  party: { dance: 0.35, rest: 0.1, toilet: 0.12, drink: 0.2, food: 0.08, sleep: 0.05 },
+  night: { dance: 0, rest: 0.05, toilet: 0.05, drink: 0.05, food: 0.02, sleep: 0.5 },
+};
+// Vendors meet a need all at once when they serve; these are for free amenities
+export const NEED_SATISFY_RATES: Record<Need, number> = {
+  dance: 1.2, rest: 1.5, toilet: 4, drink: 3, food: 2, sleep: 0.15,
+};
+export const NEED_WEIGHTS: Record<Need, number> = {
+  dance: 1, rest: 0.8, toilet: 1.3, drink: 1.1, food: 1.1, sleep: 1.2,
+};
+export const NEED_ACT_AT = 0.35;     // a need worth walking for
+export const NEED_URGENT_AT = 0.9;   // interrupts whatever the agent is doing
+export const NEED_DONE_AT = 0.05;
+export const SATISFIED_BELOW = 0.75; // an agent counts towards the crowd while every need is under this
+
+// Tickets (crowd.ts). Everyone comes in through an entrance gate and pays
+// the ticket price there. The share of visitors who think it's worth it
+// falls off past a fair price that goes up with the vibe:
+// demand = 1 / (1 + (price / fair)^TICKET_ELASTICITY).
+export const TICKET_DEFAULT_PRICE = 0.25; // $ per person
+export const TICKET_PRICE_MAX = 5;
+export const TICKET_FAIR_BASE = 0.2;      // fair price with no vibe at all
+export const TICKET_FAIR_PER_VIBE = 0.005;
+export const TICKET_ELASTICITY = 2;
+export const FUNNEL_DAYS = 7;           // days of attendance history kept
+
+// Vendors (vendors.ts): bars, food trucks and merch stands sell to the crowd
+export const VENDOR_WHOLESALE = 0.4;     // restocking costs this share of what the stock sells for
+export const MERCH_BROWSE_CHANCE = 0.1;  // chance an idle group goes shopping instead of wandering
+
+// Finance ledger (ledger.ts)
+export const LEDGER_DETAIL_DAYS = 2;     // days of individual transactions kept (today and yesterday)
+
+// Noise propagation (noise.ts): an item with noise n is NOISE_DB_REF + 10·log10(n)
+// dB one tile away, falling off 20·log10(distance)
+export const NOISE_DB_REF = 62;
+export const NOISE_DB_FLOOR = 30;      // ambient level with nothing playing
+export const TENT_BLOCK_DB = 5;        // absorbed by each tent in the way
+export const DEFAULT_NEIGHBOURS: NeighbourZone[] = [
+  { id: "campsite", name: "Family campsite", edge: "top", from: 0, to: GRID_W - 1, limitDb: 55 },
+  { id: "farm", name: "Farmhouse", edge: "right", from: 4, to: GRID_H - 1, limitDb: 50 },
+];
+
+// Noise complaints (complaints.ts). Pressure builds at night while any
+// neighbour zone is over its limit and climbs the ladder below.
+export const NIGHT_START_MIN = 22 * 60;
+export const NIGHT_END_MIN = 7 * 60;     // curfews lift at this time
+export const COMPLAINT_PER_DB_SEC = 10;  // pressure per dB over the limit per second
+export const COMPLAINT_DECAY_SEC = 15;   // pressure lost per second while quiet
+export const COMPLAINT_LADDER: { at: number; kind: "warning" | "fine" | "curfew"; fine: number }[] = [
+  { at: 100, kind: "warning", fine: 0 },
+  { at: 200, kind: "warning", fine: 0 },
+  { at: 300, kind: "fine", fine: 150 },
+  { at: 400, kind: "curfew", fine: 300 },
+];
+export const CURFEW_SPEAKER_CAP = 0.4;   // speakers run at this share of output
+export const INCIDENT_LOG_LIMIT = 50;
+
+// Player economy actions
+export const REFUEL_AMOUNT = 50;      // % fuel added per refuel
+export const SELL_BACK_RATIO = 0.6;   // refund on removal
+
+// Fuel logistics (fuel.ts). Fuel is counted in units of 1% of a generator tank.
+export const FUEL_BASE_PRICE = 0.5;   // $ per unit on an average day
+export const FUEL_PRICE_SWING = 0.3;  // daily price moves up to ±30%
+export const FUEL_TOWN_MARKUP = 1.5;  // buying a can in town when the depot is dry
+export const DEPOT_CAPACITY = 400;    // units one depot tank holds
+export const FUEL_DELIVERY_MIN = 180; // in-game minutes from order to delivery
+export const FUEL_ORDER_SIZES = [100, 200];
+export const AUTO_REFUEL_LEVELS = [25, 50]; // % thresholds offered in the inspector
@@ -0,0 +1,639 @@
+// src/game/crowd.ts
+//
+// Crowd agents. Each agent is a small group of festival-goers with six needs
+// — dance, rest, toilet, drink, food, sleep — that grow on a daily schedule: dancing
+// picks up at the evening party, sleep takes over in the small hours. An
+// agent walks to whichever item best meets its needs (how urgent, how far,
+// how good the spot is), stays until the need is met, and goes home if a need
+// stays maxed out for too long. The vibe decides how many agents turn up;
+// the headline crowd is the people in agents whose needs are all met.
+//
+// Everyone comes and goes through an entrance gate. Visitors pay the ticket
+// price at the gate, and the demand curve decides how many think it's worth
+// it; each day's funnel (turned up, bought in, put off, left and why) is kept
+// so the price can be tuned. Vendors (vendors.ts) serve the groups queueing
+// at their counter one at a time, and each sale is handed back to the sim.
+//
+// Agents walk along flow fields (pathfinding.ts) around items, a tile only
+// holds TILE_CAPACITY of them, and they keep a little apart. Anywhere they
+// keep queueing to get onto a tile shows up as a bottleneck, which costs
+// vibe — block the walkways and the whole camp suffers.
+//
+// Pure like the rest of the engine: randomness comes from the population's
+// own rng state, so replays reproduce every arrival and choice.
+
+import {
+  AGENT_ARRIVALS_PER_HOUR,
+  AGENT_DANCE_VIBE,
+  AGENT_DISTANCE_COST,
+  AGENT_GIVE_UP_HOURS,
+  AGENT_SEPARATION,
+  AGENT_SPEED,
+  AGENT_STAY_HOURS,
+  AGENT_THINK_MIN,
+  AMENITY_SLOTS,
+  CONGESTION_AT,
+  CONGESTION_SMOOTH_HOURS,
+  CROWD_MAX,
+  CROWD_PER_VIBE,
+  FUNNEL_DAYS,
+  GRID_H,
+  GRID_W,
+  MERCH_BROWSE_CHANCE,
+  NEED_ACT_AT,
+  NEED_DONE_AT,
+  NEED_RATES,
+  NEED_SATISFY_RATES,
+  NEED_URGENT_AT,
+  NEED_WEIGHTS,
+  PARTY_START_MIN,
+  PEOPLE_PER_AGENT,
+  QUEUE_SQUEEZE_PER_HOUR,
+  SATISFIED_BELOW,
+  SLEEP_START_MIN,
+  TICKET_ELASTICITY,
+  TICKET_FAIR_BASE,
+  TICKET_FAIR_PER_VIBE,
+  TILE_CAPACITY,
+  WAKE_MIN,
+  WALKWAY_WALK_SPEED,
+} from "./constants";
+import { ITEM_DEFS, hasTag } from "./catalog";
+import { clamp, computeVibeField } from "./logic";
+import { costsFrom, flowField, nextTile, pathCost, terrainOf, tileKey, type Terrain } from "./pathfinding";
+import { createRng, type Rng } from "./rng";
+import type { DayPhase, Need, PlacedItem, Tile, Walkway } from "./types";
+import { isVendor, salePrice, sellsMerch, vendorOpen, type Sale } from "./vendors";
+
+export const NEEDS: Need[] = ["dance", "rest", "toilet", "drink", "food", "sleep"];
+
+// Which items meet each need, by tag
+export const NEED_TAGS: Record<Need, string> = {
+  dance: "music",
+  rest: "chill",
+  toilet: "toilet",
+  drink: "drink",
+  food: "food",
+  sleep: "tent",
+};
+
+// Meeting a need, milling about, or browsing a merch stand
+export type Activity = Need | "wander" | "shop";
+export const ACTIVITIES: Activity[] = [...NEEDS, "wander", "shop"];
+
+const isNeed = (d: Activity | null): d is Need => d != null && d !== "wander" && d !== "shop";
+
+export interface Agent {
+  id: number;
+  x: number; // tile units; a tile's centre is at +0.5
+  y: number;
+  needs: Record<Need, number>; // 0 content … 1 desperate
+  doing: Activity | null;
+  target: Tile | null;         // tile it's walking to or standing on
+  itemId: string | null;       // item meeting the current need
+  thinkAt: number;             // absolute in-game minute of the next re-plan
+  misery: number;              // in-game hours with a need maxed out
+  leaveAt: number;             // absolute in-game minute the visit ends
+  leaving?: LeaveReason;       // walking out: the need that drove it away, or a visit over
+}
+
+// Why an agent went home: a need nothing met, or its visit was over
+export type LeaveReason = Need | "done";
+export const LEAVE_REASONS: LeaveReason[] = [...NEEDS, "done"];
+
+// One day at the gates, counted in people
+export interface AttendanceDay {
+  day: number;
+  arrived: number;    // turned up at a gate
+  entered: number;    // bought a ticket
+  turnedAway: number; // put off by the price
+  left: Record<LeaveReason, number>;
+  revenue: number;    // ticket sales ($)
+}
+
+export interface Population {
+  agents: Agent[];
+  nextId: number;
+  rng: number;             // mulberry32 state
+  congestion: number[];    // per tile (y * GRID_W + x): agents queueing to get in, smoothed
+  funnel: AttendanceDay[]; // the last FUNNEL_DAYS days, oldest first
+}
+
+export const initialPopulation = (seed: number): Population => ({
+  agents: [],
+  nextId: 1,
+  rng: seed >>> 0,
+  congestion: Array(GRID_W * GRID_H).fill(0),
+  funnel: [],
+});
+
+export const emptyAttendance = (day: number): AttendanceDay => ({
+  day,
+  arrived: 0,
+  entered: 0,
+  turnedAway: 0,
+  left: Object.fromEntries(LEAVE_REASONS.map((r) => [r, 0])) as Record<LeaveReason, number>,
+  revenue: 0,
+});
+
+export const isGate = (it: PlacedItem) => hasTag(it.defKey, "gate");
+
+// What visitors reckon a ticket is worth at this vibe
+export const fairPrice = (vibe: number) => TICKET_FAIR_BASE + Math.max(0, vibe) * TICKET_FAIR_PER_VIBE;
+
+/** Share of visitors willing to pay `price` (1 when it's free, ½ at the fair price). */
+export const ticketDemand = (price: number, vibe: number) =>
+  1 / (1 + (Math.max(0, price) / fairPrice(vibe)) ** TICKET_ELASTICITY);
+
+export function dayPhase(timeMin: number): DayPhase {
+  if (timeMin >= SLEEP_START_MIN && timeMin < WAKE_MIN) return "night";
+  if (timeMin >= PARTY_START_MIN || timeMin < SLEEP_START_MIN) return "party";
+  return "day";
+}
+
+// Every need under SATISFIED_BELOW, and not on the way out
+export const isSatisfied = (a: Agent) =>
+  !a.leaving && NEEDS.every((n) => a.needs[n] < SATISFIED_BELOW);
+
+// The need pressing hardest on an agent
+export const worstNeed = (a: Agent): Need =>
+  NEEDS.reduce((w, n) => (a.needs[n] > a.needs[w] ? n : w), NEEDS[0]);
+
+/** Items that can meet `need` right now (powered if they draw power, stocked if they sell). */
+export function servesNeed(it: PlacedItem, need: Need, powerMap: boolean[][]): boolean {
+  const def = ITEM_DEFS[it.defKey];
+  if (!def || !hasTag(it.defKey, NEED_TAGS[need])) return false;
+  if (isVendor(it.defKey)) return vendorOpen(it, powerMap);
+  return def.power <= 0 || !!powerMap[it.y]?.[it.x];
+}
+
+// Whether an item can still do what an agent went to it for
+const stillServes = (it: PlacedItem, doing: Activity, powerMap: boolean[][]) =>
+  doing === "shop" ? sellsMerch(it.defKey) && vendorOpen(it, powerMap) : isNeed(doing) && servesNeed(it, doing, powerMap);
+
+// Agents an amenity serves at once; music has a dance floor, not a queue
+const slotsOf = (it: PlacedItem, need: Need) =>
+  need === "dance" ? Infinity : ITEM_DEFS[it.defKey]?.capacity ?? AMENITY_SLOTS;
+
+export interface CrowdContext {
+  items: PlacedItem[];
+  walkways: Walkway[];
+  powerMap: boolean[][];
+  vibe: number;
+  dayNum: number;
+  timeMin: number;
+  ticketPrice: number;
+}
+
+export interface CrowdStep {
+  population: Population;
+  crowd: number;   // people in satisfied agents
+  revenue: number; // ticket sales this step ($)
+  sales: Sale[];   // vendor sales this step
+}
+
+const centre = (t: Tile) => ({ x: t.x + 0.5, y: t.y + 0.5 });
+const tileOf = (a: { x: number; y: number }): Tile => ({ x: Math.floor(a.x), y: Math.floor(a.y) });
+const distTo = (a: Agent, t: Tile) => Math.hypot(t.x + 0.5 - a.x, t.y + 0.5 - a.y);
+
+// Tiles where agents have been queueing to get in
+export function bottlenecks(pop: Population): Tile[] {
+  const out: Tile[] = [];
+  pop.congestion.forEach((c, k) => {
+    if (c >= CONGESTION_AT) out.push({ x: k % GRID_W, y: Math.floor(k / GRID_W) });
+  });
+  return out;
+}
+
+// Free tiles within `r` of an item
+function spotsNear(it: PlacedItem, r: number, blocked: Set<number>): Tile[] {
+  const out: Tile[] = [];
+  for (let y = Math.max(0, it.y - r); y <= Math.min(GRID_H - 1, it.y + r); y++) {
+    for (let x = Math.max(0, it.x - r); x <= Math.min(GRID_W - 1, it.x + r); x++) {
+      if (!blocked.has(tileKey(x, y))) out.push({ x, y });
+    }
+  }
+  return out;
+}
+
+interface Plan {
+  need: Activity;
+  itemId: string;
+  spot: Tile;
+  utility: number;
+}
+
+interface Site {
+  items: PlacedItem[];
+  gates: PlacedItem[];
+  powerMap: boolean[][];
+  terrain: Terrain;
+  vibeField: () => number[][];
+  using: Map<string, number>;  // item id -> agents heading to or using it
+  claims: Map<number, number>; // tile -> agents heading to or standing on it
+  occupancy: number[];         // agents on each tile right now
+  waiting: number[];           // agents queueing to get onto each tile this step
+  today: AttendanceDay;        // this step's comings and goings land here
+  rng: Rng;
+}
+
+const bump = <K>(m: Map<K, number>, k: K, by: number) => m.set(k, (m.get(k) ?? 0) + by);
+
+// The walk to the nearest of `spots`, given the agent's costs to every tile
+const walkTo = (costs: Float64Array, spots: Tile[]) =>
+  Math.min(...spots.map((t) => costs[tileKey(t.x, t.y)]));
+
+// Best item to head for, weighing how urgent each need is against the walk
+// (`costs`: walking cost from the agent to every tile)
+function choosePlan(a: Agent, site: Site, costs: Float64Array): Plan | null {
+  const own = a.target ? tileKey(a.target.x, a.target.y) : -1;
+  const room = (t: Tile) => {
+    const k = tileKey(t.x, t.y);
+    return k === own || (site.claims.get(k) ?? 0) < TILE_CAPACITY;
+  };
+  let best: Plan | null = null;
+  for (const need of NEEDS) {
+    const level = a.needs[need];
+    if (level < NEED_ACT_AT) continue;
+    for (const it of site.items) {
+      if (!servesNeed(it, need, site.powerMap)) continue;
+      if (a.itemId !== it.id && (site.using.get(it.id) ?? 0) >= slotsOf(it, need)) continue;
+      const spots = spotsNear(it, need === "dance" ? 2 : 1, site.terrain.blocked).filter(room);
+      if (!spots.length) continue;
+      // How far it is to walk there, around whatever's in the way
+      const walk = walkTo(costs, spots);
+      if (!Number.isFinite(walk)) continue;
+      let spot = spots[0];
+      let bonus = 0;
+      if (need === "dance") {
+        // Spread over the floor: the best vibe nearby, with a little chance
+        const field = site.vibeField();
+        bonus = -Infinity;
+        for (const t of spots) {
+          const s = field[t.y][t.x] * AGENT_DANCE_VIBE - distTo(a, t) * AGENT_DISTANCE_COST +
+            site.rng.next() * 0.1;
+          if (s > bonus) [spot, bonus] = [t, s];
+        }
+      } else {
+        for (const t of spots) if (distTo(a, t) < distTo(a, spot)) spot = t;
+      }
+      const utility = level * NEED_WEIGHTS[need] + bonus - walk * AGENT_DISTANCE_COST;
+      if (!best || utility > best.utility) best = { need, itemId: it.id, spot, utility };
+    }
+  }
+  return best;
+}
+
+// The nearest merch stand with room in its queue
+function chooseShop(a: Agent, site: Site, costs: Float64Array): Plan | null {
+  let best: Plan | null = null;
+  for (const it of site.items) {
+    if (!sellsMerch(it.defKey) || !vendorOpen(it, site.powerMap)) continue;
+    if ((site.using.get(it.id) ?? 0) >= (ITEM_DEFS[it.defKey].capacity ?? AMENITY_SLOTS)) continue;
+    const spots = spotsNear(it, 1, site.terrain.blocked).filter(
+      (t) => (site.claims.get(tileKey(t.x, t.y)) ?? 0) < TILE_CAPACITY
+    );
+    if (!spots.length) continue;
+    const walk = walkTo(costs, spots);
+    if (!Number.isFinite(walk) || (best && -walk <= best.utility)) continue;
+    let spot = spots[0];
+    for (const t of spots) if (distTo(a, t) < distTo(a, spot)) spot = t;
+    best = { need: "shop", itemId: it.id, spot, utility: -walk };
+  }
+  return best;
+}
+
+// A random free tile a few steps away, to mill about on
+function wanderSpot(a: Agent, site: Site): Tile | null {
+  const x = clamp(Math.floor(a.x) + site.rng.int(-3, 4), 0, GRID_W - 1);
+  const y = clamp(Math.floor(a.y) + site.rng.int(-3, 4), 0, GRID_H - 1);
+  const k = tileKey(x, y);
+  return site.terrain.blocked.has(k) || (site.claims.get(k) ?? 0) >= TILE_CAPACITY ? null : { x, y };
+}
+
+function claim(a: Agent, target: Tile | null, site: Site): Agent {
+  if (a.target) bump(site.claims, tileKey(a.target.x, a.target.y), -1);
+  if (target) bump(site.claims, tileKey(target.x, target.y), 1);
+  return { ...a, target };
+}
+
+/**
+ * Walk towards `goal` along its flow field, queueing at the edge of a full
+ * tile. Returns null when there's no way there at all.
+ */
+function walk(a: Agent, goal: Tile, site: Site, dt: number): Agent | null {
+  const here = tileOf(a);
+  const hk = tileKey(here.x, here.y);
+  const speed = AGENT_SPEED * dt * (site.terrain.walk.has(hk) ? WALKWAY_WALK_SPEED : 1);
+
+  // On the goal tile: drift towards the middle (separation spreads them out)
+  let aim: { x: number; y: number };
+  if (here.x === goal.x && here.y === goal.y) {
+    if (distTo(a, goal) < 0.2) return a;
+    aim = centre(goal);
+  } else {
+    const next = nextTile(site.terrain, flowField(site.terrain, goal), here);
+    if (!next) return null;
+    aim = centre(next);
+  }
+
+  const dx = aim.x - a.x;
+  const dy = aim.y - a.y;
+  const d = Math.hypot(dx, dy);
+  const step = Math.min(d, speed);
+  let to = { x: a.x + (dx / d) * step, y: a.y + (dy / d) * step };
+  let tk = tileKey(Math.floor(to.x), Math.floor(to.y));
+  // Cutting a corner through an item: line up on this tile's centre first
+  if (tk !== hk && site.terrain.blocked.has(tk) && !(Math.floor(to.x) === goal.x && Math.floor(to.y) === goal.y)) {
+    const c = centre(here);
+    const cd = Math.hypot(c.x - a.x, c.y - a.y);
+    const cs = Math.min(cd, speed);
+    to = cd > 0 ? { x: a.x + ((c.x - a.x) / cd) * cs, y: a.y + ((c.y - a.y) / cd) * cs } : c;
+    tk = hk;
+  }
+  if (tk !== hk) {
+    // A full tile: wait at the edge (now and then someone squeezes in)
+    if (site.occupancy[tk] >= TILE_CAPACITY && site.rng.next() >= QUEUE_SQUEEZE_PER_HOUR * dt) {
+      site.waiting[tk]++;
+      return a;
+    }
+    site.occupancy[hk]--;
+    site.occupancy[tk]++;
+  }
+  return { ...a, ...to };
+}
+
+// Standing on its target tile
+export const atTarget = (a: Agent) =>
+  !!a.target && Math.floor(a.x) === a.target.x && Math.floor(a.y) === a.target.y;
+
+function arrive(id: number, gate: Tile, rng: Rng, now: number): Agent {
+  const needs = {} as Record<Need, number>;
+  for (const n of NEEDS) needs[n] = n === "sleep" ? 0 : rng.range(0, 0.3);
+  const [lo, hi] = AGENT_STAY_HOURS;
+  return {
+    id,
+    ...centre(gate),
+    needs,
+    doing: null,
+    target: null,
+    itemId: null,
+    thinkAt: now,
+    misery: 0,
+    leaveAt: now + rng.range(lo, hi) * 60,
+  };
+}
+
+function stepAgent(agent: Agent, site: Site, phase: DayPhase, now: number, dt: number): Agent | null {
+  let a = agent;
+
+  if (a.leaving) {
+    // Out through the nearest gate (or over the fence if there's no way to one)
+    const t = a.target;
+    if (!t || !site.gates.some((g) => g.x === t.x && g.y === t.y)) a = { ...a, target: nearestGate(a, site) };
+    const moved = a.target && !atTarget(a) ? walk(a, a.target, site, dt) : null;
+    if (!moved) site.occupancy[tileKey(Math.floor(a.x), Math.floor(a.y))]--;
+    return moved;
+  }
+
+  // Whatever it was using got removed, lost power or sold out
+  if (a.itemId && a.doing && a.doing !== "wander") {
+    const it = site.items.find((i) => i.id === a.itemId);
+    if (!it || !stillServes(it, a.doing, site.powerMap)) {
+      bump(site.using, a.itemId, -1);
+      a = { ...claim(a, null, site), doing: null, itemId: null, thinkAt: now };
+    }
+  }
+
+  // Needs: the one being met goes down, the rest grow (sleepers only sleep).
+  // A vendor's queue doesn't meet anything until it's served.
+  const atVendor = !!a.itemId && isVendor(site.items.find((i) => i.id === a.itemId)?.defKey ?? "");
+  const using = isNeed(a.doing) && atTarget(a) && !atVendor ? a.doing : null;
+  const needs = { ...a.needs };
+  for (const n of NEEDS) {
+    if (n === using) {
+      let rate = NEED_SATISFY_RATES[n];
+      if (n === "dance") {
+        const v = site.vibeField()[a.target!.y][a.target!.x];
+        rate *= clamp(v / 10, 0.3, 1);
+      }
+      needs[n] = Math.max(0, needs[n] - rate * dt);
+    } else if (using !== "sleep") {
+      needs[n] = Math.min(1, needs[n] + NEED_RATES[phase][n] * dt);
+    }
+  }
+  a = { ...a, needs };
+
+  // Done? (sleepers stay in bed until morning)
+  if (using && needs[using] <= NEED_DONE_AT && (using !== "sleep" || phase !== "night")) {
+    bump(site.using, a.itemId!, -1);
+    a = { ...claim(a, null, site), doing: null, itemId: null, thinkAt: now };
+  }
+
+  // Re-plan when idle, on schedule, or when something else gets urgent
+  const urgent = NEEDS.some((n) => n !== a.doing && needs[n] >= NEED_URGENT_AT);
+  const idle = !a.doing || a.doing === "wander";
+  if (now >= a.thinkAt && (idle || urgent)) {
+    // One search from here prices every destination it weighs up
+    const costs = costsFrom(site.terrain, tileOf(a));
+    const plan = choosePlan(a, site, costs);
+    if (plan && (idle || plan.need !== a.doing)) {
+      if (a.itemId) bump(site.using, a.itemId, -1);
+      bump(site.using, plan.itemId, 1);
+      a = { ...claim(a, plan.spot, site), doing: plan.need, itemId: plan.itemId };
+    } else if (idle && (!a.target || atTarget(a))) {
+      // Nothing pressing: sometimes a look round the merch, otherwise a wander
+      const shop = site.rng.next() < MERCH_BROWSE_CHANCE ? chooseShop(a, site, costs) : null;
+      const spot = shop ? null : wanderSpot(a, site);
+      if (shop) {
+        bump(site.using, shop.itemId, 1);
+        a = { ...claim(a, shop.spot, site), doing: "shop", itemId: shop.itemId };
+      } else if (spot) {
+        a = { ...claim(a, spot, site), doing: "wander", itemId: null };
+      }
+    }
+    a = { ...a, thinkAt: now + AGENT_THINK_MIN };
+  }
+
+  if (a.target) {
+    const moved = walk(a, a.target, site, dt);
+    if (moved) a = moved;
+    else {
+      // Walled off since it set out: think again
+      if (a.itemId) bump(site.using, a.itemId, -1);
+      a = { ...claim(a, null, site), doing: null, itemId: null, thinkAt: now };
+    }
+  }
+
+  // Maxed-out needs wear them down; so does the visit running out
+  const worst = worstNeed(a);
+  const misery = needs[worst] >= 1 ? a.misery + dt : Math.max(0, a.misery - dt);
+  a = { ...a, misery };
+  if (misery >= AGENT_GIVE_UP_HOURS) return leave(a, site, worst);
+  if (now >= a.leaveAt && using !== "sleep") return leave(a, site, "done");
+  return a;
+}
+
+function leave(a: Agent, site: Site, reason: LeaveReason): Agent {
+  if (a.itemId) bump(site.using, a.itemId, -1);
+  site.today.left[reason] += PEOPLE_PER_AGENT;
+  const out = { ...claim(a, null, site), leaving: reason, doing: null, itemId: null };
+  return { ...out, target: nearestGate(out, site) };
+}
+
+// The gate that's the shortest walk away, if any can be reached
+function nearestGate(a: Agent, site: Site): Tile | null {
+  let best: Tile | null = null;
+  let bestCost = Infinity;
+  for (const g of site.gates) {
+    const c = pathCost(site.terrain, flowField(site.terrain, g), tileOf(a));
+    if (c < bestCost) [best, bestCost] = [{ x: g.x, y: g.y }, c];
+  }
+  return best;
+}
+
+// Push agents that are too close apart, without shoving anyone into an item
+// or off the tile they're using
+function separate(agents: Agent[], site: Site) {
+  const buckets = new Map<number, number[]>();
+  agents.forEach((a, i) => {
+    const k = tileKey(Math.floor(a.x), Math.floor(a.y));
+    buckets.set(k, [...(buckets.get(k) ?? []), i]);
+  });
+  const push = agents.map(() => ({ x: 0, y: 0 }));
+  agents.forEach((a, i) => {
+    const tx = Math.floor(a.x);
+    const ty = Math.floor(a.y);
+    for (let y = ty - 1; y <= ty + 1; y++) {
+      for (let x = tx - 1; x <= tx + 1; x++) {
+        if (x < 0 || y < 0 || x >= GRID_W || y >= GRID_H) continue;
+        for (const j of buckets.get(tileKey(x, y)) ?? []) {
+          if (j <= i) continue;
+          const b = agents[j];
+          const gap = Math.hypot(b.x - a.x, b.y - a.y);
+          if (gap >= AGENT_SEPARATION) continue;
+          // Stacked exactly: split along a direction picked from their ids
+          const ang = ((a.id * 7 + b.id * 13) % 360) * (Math.PI / 180);
+          const dx = gap ? (b.x - a.x) / gap : Math.cos(ang);
+          const dy = gap ? (b.y - a.y) / gap : Math.sin(ang);
+          const f = (AGENT_SEPARATION - gap) / 2;
+          push[i].x -= dx * f;
+          push[i].y -= dy * f;
+          push[j].x += dx * f;
+          push[j].y += dy * f;
+        }
+      }
+    }
+  });
+  return agents.map((a, i) => {
+    if (!push[i].x && !push[i].y) return a;
+    const x = clamp(a.x + push[i].x, 0.01, GRID_W - 0.01);
+    const y = clamp(a.y + push[i].y, 0.01, GRID_H - 0.01);
+    const from = tileKey(Math.floor(a.x), Math.floor(a.y));
+    const to = tileKey(Math.floor(x), Math.floor(y));
+    if (to === from) return { ...a, x, y };
+    // Only ever nudged within its own tile when it's using it or the next one's blocked
+    if (atTarget(a) || site.terrain.blocked.has(to)) {
+      return {
+        ...a,
+        x: clamp(x, Math.floor(a.x) + 0.02, Math.floor(a.x) + 0.98),
+        y: clamp(y, Math.floor(a.y) + 0.02, Math.floor(a.y) + 0.98),
+      };
+    }
+    return { ...a, x, y };
+  });
+}
+
+/**
+ * Advance every agent by `dt` seconds, let new ones in through the gates, and
+ * count the happy crowd and the ticket money.
+ */
+export function stepCrowd(pop: Population, ctx: CrowdContext, dt: number): CrowdStep {
+  const rng = createRng(pop.rng);
+  const now = (ctx.dayNum - 1) * 24 * 60 + ctx.timeMin;
+  const phase = dayPhase(ctx.timeMin);
+  let field: number[][] | null = null;
+  const last = pop.funnel[pop.funnel.length - 1];
+  const site: Site = {
+    items: ctx.items,
+    gates: ctx.items.filter(isGate),
+    powerMap: ctx.powerMap,
+    terrain: terrainOf(ctx.items, ctx.walkways),
+    vibeField: () => (field ??= computeVibeField(ctx.items, ctx.powerMap)),
+    using: new Map(),
+    claims: new Map(),
+    occupancy: Array(GRID_W * GRID_H).fill(0),
+    waiting: Array(GRID_W * GRID_H).fill(0),
+    today: last?.day === ctx.dayNum ? { ...last, left: { ...last.left } } : emptyAttendance(ctx.dayNum),
+    rng,
+  };
+  for (const a of pop.agents) {
+    if (a.itemId) bump(site.using, a.itemId, 1);
+    if (a.target && !a.leaving) bump(site.claims, tileKey(a.target.x, a.target.y), 1);
+    site.occupancy[tileKey(Math.floor(a.x), Math.floor(a.y))]++;
+  }
+
+  const agents: Agent[] = [];
+  for (const a of pop.agents) {
+    const next = stepAgent(a, site, phase, now, dt);
+    if (next) agents.push(next);
+  }
+
+  // Vendors serve the groups at their counter one at a time; being served
+  // meets the need outright
+  const sales: Sale[] = [];
+  for (const it of site.items) {
+    if (!vendorOpen(it, site.powerMap)) continue;
+    const i = agents.findIndex((a) => a.itemId === it.id && !a.leaving && atTarget(a));
+    if (i < 0 || rng.next() >= (ITEM_DEFS[it.defKey].serviceRate ?? 0) * dt) continue;
+    const a = agents[i];
+    bump(site.using, it.id, -1);
+    const needs = isNeed(a.doing) ? { ...a.needs, [a.doing]: 0 } : a.needs;
+    agents[i] = { ...claim(a, null, site), needs, doing: null, itemId: null, thinkAt: now };
+    sales.push({ itemId: it.id, defKey: it.defKey, amount: salePrice(it.defKey) });
+  }
+
+  // Arrivals: visitors come to the gates while fewer are in than the vibe
+  // draws, more the emptier it is (gates shut overnight), and wait if the
+  // gate is packed. Each one then weighs the price against the demand curve:
+  // those who won't pay it are the ones turned away.
+  let nextId = pop.nextId;
+  let revenue = 0;
+  const draw = Math.floor(clamp(ctx.vibe * CROWD_PER_VIBE, 0, CROWD_MAX) / PEOPLE_PER_AGENT);
+  const demand = ticketDemand(ctx.ticketPrice, ctx.vibe);
+  const here = agents.filter((a) => !a.leaving).length;
+  if (site.gates.length && phase !== "night" && here < draw &&
+      rng.next() < AGENT_ARRIVALS_PER_HOUR * (1 - here / draw) * dt) {
+    const gate = site.gates[rng.int(0, site.gates.length)];
+    const gk = tileKey(gate.x, gate.y);
+    if (site.occupancy[gk] >= TILE_CAPACITY) site.waiting[gk]++;
+    else {
+      site.today.arrived += PEOPLE_PER_AGENT;
+      if (rng.next() < demand) {
+        agents.push(arrive(nextId++, gate, rng, now));
+        revenue = ctx.ticketPrice * PEOPLE_PER_AGENT;
+        site.today.entered += PEOPLE_PER_AGENT;
+        site.today.revenue += revenue;
+      } else {
+        site.today.turnedAway += PEOPLE_PER_AGENT;
+      }
+    }
+  }
+
+  // Congestion map follows the queues, smoothed so it doesn't flicker
+  const k = Math.min(1, dt / CONGESTION_SMOOTH_HOURS);
+  const congestion = pop.congestion.map((c, i) => c + (site.waiting[i] - c) * k);
+
+  return {
+    population: {
+      agents: separate(agents, site),
+      nextId,
+      rng: rng.getState(),
+      congestion,
+      funnel: [...pop.funnel.filter((d) => d.day !== ctx.dayNum), site.today].slice(-FUNNEL_DAYS),
+    },
+    crowd: agents.filter(isSatisfied).length * PEOPLE_PER_AGENT,
+    revenue,
+    sales,
+  };
+}
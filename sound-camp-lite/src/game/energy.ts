@@ -0,0 +1,61 @@
+// src/game/energy.ts
+//
+// Power sources. Every "generator"-tagged item supplies power, but how much
+// depends on what it is:
+//
+//   * diesel (plain generators) — their rated `capacity`, for as long as the
+//     fuel lasts; louder models are bigger
+//   * solar — rated capacity scaled by the sun: nothing at night, full output
+//     at midday, no fuel
+//   * battery — discharges up to its rated capacity while it holds a charge,
+//     and charges from whatever the other sources on its cable network have
+//     spare
+//
+// Battery charge is counted in power units × in-game hours. One real second
+// of sim time is one in-game hour, so a step of `dt` seconds moves `rate × dt`.
+
+import { GEN_CAPACITY, ITEM_DEFS, SUNRISE_MIN, SUNSET_MIN } from "./constants";
+import { hasTag, isGenerator } from "./catalog";
+import type { ItemKey, PlacedItem } from "./types";
+
+export const isSolar = (key: ItemKey) => hasTag(key, "solar");
+export const isBattery = (key: ItemKey) => hasTag(key, "battery");
+export const burnsFuel = (key: ItemKey) => isGenerator(key) && !isSolar(key) && !isBattery(key);
+
+// Nameplate output: solar at noon, batteries at full discharge rate
+export const ratedCapacity = (key: ItemKey) => ITEM_DEFS[key]?.capacity ?? GEN_CAPACITY;
+
+export const batteryStorage = (key: ItemKey) => ITEM_DEFS[key]?.storage ?? 0;
+
+/** Share of full solar output at `timeMin`: 0 at night, a sine arch over the day. */
+export function sunFactor(timeMin: number): number {
+  if (timeMin <= SUNRISE_MIN || timeMin >= SUNSET_MIN) return 0;
+  return Math.sin((Math.PI * (timeMin - SUNRISE_MIN)) / (SUNSET_MIN - SUNRISE_MIN));
+}
+
+/** What a running source can supply right now. */
+export function sourceCapacity(it: PlacedItem, timeMin: number): number {
+  const rated = ratedCapacity(it.defKey);
+  if (isSolar(it.defKey)) return rated * sunFactor(timeMin);
+  if (isBattery(it.defKey)) return (it.charge ?? 0) > 0 ? rated : 0;
+  return rated;
+}
+
+// Order sources take on load: free solar first, then fuel, then storage
+export const sourceTier = (key: ItemKey) => (isSolar(key) ? 0 : isBattery(key) ? 2 : 1);
+
+/** Charge and discharge batteries for one step (`charging`/`genLoads` are power flows). */
+export function stepBatteries(
+  items: PlacedItem[],
+  genLoads: Record<string, number>,
+  charging: Record<string, number>,
+  dt: number
+): PlacedItem[] {
+  return items.map((i) => {
+    if (!isBattery(i.defKey)) return i;
+    const flow = (charging[i.id] ?? 0) - (genLoads[i.id] ?? 0);
+    if (flow === 0) return i;
+    const charge = Math.max(0, Math.min(batteryStorage(i.defKey), (i.charge ?? 0) + flow * dt));
+    return { ...i, charge };
+  });
+}
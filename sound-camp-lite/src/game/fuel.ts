@@ -0,0 +1,128 @@
+// src/game/fuel.ts
+//
+// Fuel logistics. Fuel depots hold a stock of fuel, counted in units of 1% of
+// a generator tank. The player orders deliveries at the day's price and the
+// truck turns up FUEL_DELIVERY_MIN in-game minutes later. Generators take
+// fuel from the nearest depots — on demand, or by themselves once they drop
+// below their auto-refuel threshold. Pure like the rest of the engine:
+// sim.ts calls stepFuel() once per step.
+
+import {
+  DEPOT_CAPACITY,
+  FUEL_BASE_PRICE,
+  FUEL_DELIVERY_MIN,
+  FUEL_PRICE_SWING,
+} from "./constants";
+import { hasTag } from "./catalog";
+import { burnsFuel } from "./energy";
+import { isPast } from "./milestones";
+import { createRng } from "./rng";
+import type { ItemKey, PlacedItem } from "./types";
+
+export interface FuelOrder {
+  id: string;
+  depotId: string;
+  amount: number;    // units
+  arriveDay: number;
+  arriveMin: number;
+}
+
+export const isDepot = (key: ItemKey) => hasTag(key, "depot");
+
+/** $ per unit on `day`. Moves day to day around FUEL_BASE_PRICE; the same in every run. */
+export function fuelPrice(day: number): number {
+  const r = createRng(Math.imul(day, 0x9e3779b1)).next();
+  return Math.round(FUEL_BASE_PRICE * (1 + FUEL_PRICE_SWING * (2 * r - 1)) * 100) / 100;
+}
+
+export const orderCost = (amount: number, day: number) => Math.round(amount * fuelPrice(day));
+
+// When an order placed now arrives
+export function deliveryTime(dayNum: number, timeMin: number): { arriveDay: number; arriveMin: number } {
+  const at = timeMin + FUEL_DELIVERY_MIN;
+  return { arriveDay: dayNum + Math.floor(at / (24 * 60)), arriveMin: Math.floor(at % (24 * 60)) };
+}
+
+/** Room left in a depot's tank once the deliveries already on their way arrive. */
+export function depotSpace(depot: PlacedItem, orders: FuelOrder[]): number {
+  const pending = orders.filter((o) => o.depotId === depot.id).reduce((n, o) => n + o.amount, 0);
+  return Math.max(0, DEPOT_CAPACITY - (depot.stock ?? 0) - pending);
+}
+
+export const depotStock = (items: PlacedItem[]) =>
+  items.reduce((n, i) => n + (isDepot(i.defKey) ? i.stock ?? 0 : 0), 0);
+
+/**
+ * Move up to `want` units from the depots (nearest first) into a generator's
+ * tank. Returns the new items and how much was moved.
+ */
+export function drawFuel(
+  items: PlacedItem[],
+  genId: string,
+  want: number
+): { items: PlacedItem[]; got: number } {
+  const gen = items.find((i) => i.id === genId);
+  if (!gen || want <= 0) return { items, got: 0 };
+  const depots = items
+    .filter((i) => isDepot(i.defKey) && (i.stock ?? 0) > 0)
+    .sort((a, b) => Math.hypot(a.x - gen.x, a.y - gen.y) - Math.hypot(b.x - gen.x, b.y - gen.y));
+  const taken = new Map<string, number>();
+  let got = 0;
+  for (const d of depots) {
+    if (got >= want) break;
+    const take = Math.min(d.stock ?? 0, want - got);
+    taken.set(d.id, take);
+    got += take;
+  }
+  if (got === 0) return { items, got };
+  return {
+    items: items.map((i) => {
+      if (i.id === genId) return { ...i, fuel: Math.min(100, (i.fuel ?? 0) + got) };
+      const take = taken.get(i.id);
+      return take ? { ...i, stock: (i.stock ?? 0) - take } : i;
+    }),
+    got,
+  };
+}
+
+export interface FuelStep {
+  items: PlacedItem[];
+  orders: FuelOrder[];
+  delivered: FuelOrder[]; // arrived during this step
+}
+
+export function stepFuel(
+  items: PlacedItem[],
+  orders: FuelOrder[],
+  dayNum: number,
+  timeMin: number
+): FuelStep {
+  // Deliveries that are due; one for a depot that's since been removed is lost
+  const delivered: FuelOrder[] = [];
+  const waiting: FuelOrder[] = [];
+  for (const o of orders) {
+    if (isPast(o.arriveDay, o.arriveMin, dayNum, timeMin)) delivered.push(o);
+    else waiting.push(o);
+  }
+  let next = items;
+  if (delivered.length) {
+    next = next.map((i) => {
+      const amount = delivered.filter((o) => o.depotId === i.id).reduce((n, o) => n + o.amount, 0);
+      return amount ? { ...i, stock: Math.min(DEPOT_CAPACITY, (i.stock ?? 0) + amount) } : i;
+    });
+  }
+
+  // Auto-refuel: generators below their threshold top up to full
+  for (const g of items) {
+    if (!burnsFuel(g.defKey) || g.autoRefuel == null) continue;
+    const fuel = next.find((i) => i.id === g.id)!.fuel ?? 0;
+    if (fuel >= g.autoRefuel) continue;
+    next = drawFuel(next, g.id, 100 - fuel).items;
+  }
+
+  return {
+    items: next,
+    orders: delivered.length ? waiting : orders,
+    delivered: delivered.filter((o) => items.some((i) => i.id === o.depotId)),
+  };
+}
@@ -0,0 +1,155 @@
+// src/game/history.ts
+//
+// Undo/redo history. Each undoable command records the layout, wires, money
+// and generator state before and after it ran. Stepping back restores the
+// layout snapshot, but money, fuel, depot stock and battery charge are
+// rewound by the *change* the command made, so income earned (and fuel
+// burnt) since then isn't lost. A breaker that tripped in the meantime
+// stays tripped. Fuel and stock can't be given back once they're used:
+// refuels and restocks aren't undoable at all, and placing an item that came
+// with a full tank can't be undone once it has started on it.
+
+import { DEPOT_CAPACITY } from "./constants";
+import type { SimState } from "./sim";
+import { isVendor, stockMax } from "./vendors";
+import type { PlacedItem, Wire } from "./types";
+
+export const HISTORY_LIMIT = 50;
+
+export interface HistorySnapshot {
+  items: PlacedItem[];
+  wires: Wire[];
+  money: number;
+}
+
+export interface HistoryEntry {
+  label: string;
+  tick: number;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface History {
+  entries: HistoryEntry[];
+  cursor: number; // number of entries currently applied (0 = before the first)
+}
+
+export const emptyHistory = (): History => ({ entries: [], cursor: 0 });
+
+export function snapshotOf(state: SimState): HistorySnapshot {
+  return structuredClone({ items: state.items, wires: state.wires, money: state.money });
+}
+
+// Record a new command; anything that was undone is dropped (no branching)
+export function pushHistory(
+  h: History,
+  entry: HistoryEntry,
+  limit = HISTORY_LIMIT
+): History {
+  const entries = [...h.entries.slice(0, h.cursor), entry];
+  const overflow = Math.max(0, entries.length - limit);
+  return { entries: entries.slice(overflow), cursor: entries.length - overflow };
+}
+
+export const canUndo = (h: History) => h.cursor > 0;
+export const canRedo = (h: History) => h.cursor < h.entries.length;
+
+// Generator fuel, depot/vendor stock and battery charge, tracked the same
+// way (each capped at that item's own maximum)
+const TANKS: ["fuel" | "stock" | "charge", (it: PlacedItem) => number][] = [
+  ["fuel", () => 100],
+  ["stock", (it) => (isVendor(it.defKey) ? stockMax(it.defKey) : DEPOT_CAPACITY)],
+  ["charge", () => Infinity],
+];
+
+const levelsOf = (items: PlacedItem[], key: "fuel" | "stock" | "charge") =>
+  new Map(items.filter((i) => i[key] != null).map((i) => [i.id, i[key]!]));
+
+export interface HistoryRestore {
+  items: PlacedItem[];
+  wires: Wire[];
+  moneyDelta: number;
+}
+
+/**
+ * What the session should look like after moving the cursor to `target`,
+ * given the current live state. Returns null if there's nothing to do.
+ */
+export function restoreTo(
+  h: History,
+  target: number,
+  current: SimState
+): HistoryRestore | null {
+  const to = Math.max(0, Math.min(h.entries.length, target));
+  if (to === h.cursor) return null;
+
+  const back = to < h.cursor;
+  const span = back
+    ? h.entries.slice(to, h.cursor)
+    : h.entries.slice(h.cursor, to);
+  const sign = back ? -1 : 1;
+  const snap = back ? h.entries[to].before : h.entries[to - 1].after;
+
+  // Sum the money/fuel/stock each crossed command changed
+  let moneyDelta = 0;
+  for (const e of span) moneyDelta += sign * (e.after.money - e.before.money);
+
+  const liveTrips = new Map(current.items.filter((i) => i.tripped).map((i) => [i.id, i]));
+  let items = structuredClone(snap.items).map((it) => {
+    const trip = liveTrips.get(it.id);
+    return trip ? { ...it, on: false, tripped: true, trippedOver: trip.trippedOver } : it;
+  });
+  for (const [key, max] of TANKS) {
+    const delta = new Map<string, number>();
+    for (const e of span) {
+      const lb = levelsOf(e.before.items, key);
+      for (const [id, f] of levelsOf(e.after.items, key)) {
+        if (!lb.has(id)) continue;
+        delta.set(id, (delta.get(id) ?? 0) + sign * (f - lb.get(id)!));
+      }
+    }
+    const live = levelsOf(current.items, key);
+    items = items.map((it) => {
+      if (it[key] == null || !live.has(it.id)) return it;
+      const level = live.get(it.id)! + (delta.get(it.id) ?? 0);
+      return { ...it, [key]: Math.max(0, Math.min(max(it), level)) };
+    });
+  }
+
+  return { items, wires: structuredClone(snap.wires), moneyDelta };
+}
+
+/**
+ * Why the cursor can't move back to `target`, or null if it can: an item
+ * placed in the span has used some of the fuel or stock it came with.
+ */
+export function undoBlocker(h: History, target: number, current: SimState): string | null {
+  const to = Math.max(0, Math.min(h.entries.length, target));
+  if (to >= h.cursor) return null;
+  // Levels as they stand now, or when a later command in the span removed the item
+  const levels = {
+    fuel: levelsOf(current.items, "fuel"),
+    stock: levelsOf(current.items, "stock"),
+  };
+  for (const e of h.entries.slice(to, h.cursor).reverse()) {
+    const before = new Set(e.before.items.map((i) => i.id));
+    for (const it of e.after.items) {
+      if (before.has(it.id)) continue;
+      for (const key of ["fuel", "stock"] as const) {
+        if (it[key] != null && (levels[key].get(it.id) ?? it[key]!) < it[key]!) {
+          return `Can't undo "${e.label}" — it has used ${key} since.`;
+        }
+      }
+    }
+    for (const key of ["fuel", "stock"] as const) {
+      for (const [id, level] of levelsOf(e.before.items, key)) {
+        if (!levels[key].has(id)) levels[key].set(id, level);
+      }
+    }
+  }
+  return null;
+}
+
+export function moveCursor(h: History, target: number): History {
+  return { ...h, cursor: Math.max(0, Math.min(h.entries.length, target)) };
+}
@@ -0,0 +1,148 @@
+// src/game/ledger.ts
+//
+// Finance ledger. Every change to the camp's money is booked here as a typed
+// transaction — items bought and sold back, cable, fuel, vendor stock,
+// tickets, vendor sales, goal rewards, noise fines, undo/redo — so the
+// balance can always be explained. Transactions are kept individually for
+// LEDGER_DETAIL_DAYS days; each day also gets a profit & loss row (opening
+// balance plus totals by kind) that's kept for the whole run and drives the
+// end-of-day report, the charts and the CSV export.
+//
+// Pure like the rest of the engine: commands.ts and sim.ts book through
+// book(), which moves the money and records it in one go.
+
+import { LEDGER_DETAIL_DAYS } from "./constants";
+import type { SimState } from "./sim";
+
+export type TxKind =
+  | "capex"    // items bought
+  | "refunds"  // items sold back
+  | "wires"    // cable runs, re-routes and re-pulls
+  | "fuel"     // refuelling in town and fuel deliveries
+  | "stock"    // restocking vendors
+  | "tickets"  // gate takings
+  | "sales"    // vendor sales
+  | "rewards"  // goals completed
+  | "fines"    // noise fines
+  | "undo";    // money moved back or forth by undo/redo
+
+export const TX_KINDS: TxKind[] = [
+  "tickets", "sales", "rewards", "refunds", "capex", "wires", "fuel", "stock", "fines", "undo",
+];
+
+export const TX_LABEL: Record<TxKind, string> = {
+  capex: "Equipment",
+  refunds: "Sell-back",
+  wires: "Cabling",
+  fuel: "Fuel",
+  stock: "Vendor stock",
+  tickets: "Tickets",
+  sales: "Vendor sales",
+  rewards: "Goal rewards",
+  fines: "Fines",
+  undo: "Undo / redo",
+};
+
+export interface Transaction {
+  kind: TxKind;
+  amount: number;   // $ in (+) or out (−)
+  dayNum: number;
+  timeMin: number;
+  itemId?: string;  // the item bought, sold back, refuelled, restocked or selling
+  note?: string;    // what it was, for the report
+}
+
+// What a command or step books; the ledger stamps the time
+export type Entry = Omit<Transaction, "dayNum" | "timeMin">;
+
+// One day's profit & loss
+export interface DayPnL {
+  day: number;
+  opening: number;                 // balance at the start of the day
+  totals: Record<TxKind, number>;  // net $ by kind
+}
+
+export interface Ledger {
+  transactions: Transaction[]; // the last LEDGER_DETAIL_DAYS days, oldest first
+  days: DayPnL[];              // every day so far, oldest first
+}
+
+export const initialLedger = (): Ledger => ({ transactions: [], days: [] });
+
+const noTotals = () => Object.fromEntries(TX_KINDS.map((k) => [k, 0])) as Record<TxKind, number>;
+
+export const dayNet = (d: DayPnL) => TX_KINDS.reduce((sum, k) => sum + d.totals[k], 0);
+export const dayIncome = (d: DayPnL) => TX_KINDS.reduce((sum, k) => sum + Math.max(0, d.totals[k]), 0);
+export const daySpend = (d: DayPnL) => TX_KINDS.reduce((sum, k) => sum + Math.min(0, d.totals[k]), 0);
+export const dayClosing = (d: DayPnL) => d.opening + dayNet(d);
+
+// Keep sums of many small sales in whole cents
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Move the money and record why. Opens a P&L row when the day changes (even
+ * with nothing to book) and drops detail older than LEDGER_DETAIL_DAYS.
+ */
+export function book(
+  state: Pick<SimState, "money" | "ledger" | "dayNum" | "timeMin">,
+  entries: Entry[]
+): { money: number; ledger: Ledger } {
+  const { money, ledger, dayNum, timeMin } = state;
+  const booked = entries.filter((e) => e.amount !== 0);
+  const last = ledger.days[ledger.days.length - 1];
+  const sameDay = last?.day === dayNum;
+  if (!booked.length && sameDay) return { money, ledger };
+
+  const today = sameDay ? { ...last, totals: { ...last.totals } } : { day: dayNum, opening: money, totals: noTotals() };
+  for (const e of booked) today.totals[e.kind] = cents(today.totals[e.kind] + e.amount);
+  const kept = sameDay ? ledger.transactions : ledger.transactions.filter((t) => t.dayNum > dayNum - LEDGER_DETAIL_DAYS);
+  return {
+    money: cents(money + booked.reduce((sum, e) => sum + e.amount, 0)),
+    ledger: {
+      transactions: [...kept, ...booked.map((e) => ({ ...e, dayNum, timeMin }))],
+      days: [...(sameDay ? ledger.days.slice(0, -1) : ledger.days), today],
+    },
+  };
+}
+
+const csvCell = (v: string | number) => {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+// HH:MM for the CSV
+const clock = (mins: number) => {
+  const z = (n: number) => String(Math.floor(n)).padStart(2, "0");
+  return `${z(mins / 60)}:${z(mins % 60)}`;
+};
+const csv = (rows: (string | number)[][]) => rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+
+/** Daily P&L as CSV: one row per day, a column per kind, then the totals. */
+export function pnlCsv(ledger: Ledger): string {
+  return csv([
+    ["day", "opening", ...TX_KINDS, "income", "spend", "net", "closing"],
+    ...ledger.days.map((d) => [
+      d.day,
+      d.opening,
+      ...TX_KINDS.map((k) => d.totals[k]),
+      cents(dayIncome(d)),
+      cents(daySpend(d)),
+      cents(dayNet(d)),
+      cents(dayClosing(d)),
+    ]),
+  ]);
+}
+
+/** The detailed transactions still kept, as CSV. */
+export function transactionsCsv(ledger: Ledger): string {
+  return csv([
+    ["day", "time", "kind", "amount", "item", "note"],
+    ...ledger.transactions.map((t) => [
+      t.dayNum,
+      clock(t.timeMin),
+      t.kind,
+      t.amount,
+      t.itemId ?? "",
+      t.note ?? "",
+    ]),
+  ]);
+}
@@ -1,5 +1,35 @@
-import { GRID_H, GRID_W, ITEM_DEFS, TILE, GEN_CAPACITY } from "./constants";
-import type { PlacedItem, Wire, Score } from "./types";
+import {
+  BROWNOUT_CUTOFF,
+  GRID_H,
+  GRID_W,
+  ITEM_DEFS,
+  TILE,
+  TRIP_HAZARD_VIBE,
+  CONGESTION_VIBE,
+} from "./constants";
+import type { PlacedItem, PowerModel, Wire, Score } from "./types";
+import { rng } from "./rng";
+import {
+  buildNetworks,
+  cableDistances,
+  cableLoss,
+  isRunning,
+  trippedGroup,
+  type PowerNetwork,
+} from "./powerGraph";
+import { scoreItems, type ScoreOptions } from "./rules";
+import { isGenerator } from "./catalog";
+import { isDepot } from "./fuel";
+import { isVendor, stockMax } from "./vendors";
+import {
+  batteryStorage,
+  burnsFuel,
+  isBattery,
+  ratedCapacity,
+  sourceCapacity,
+  sourceTier,
+} from "./energy";
+import { CONE_BACKSPILL, inCone } from "./cone";
 
 export const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
 export const dist2 = (ax: number, ay: number, bx: number, by: number) => Math.hypot(ax - bx, ay - by);
@@ -13,134 +43,224 @@ export function canPlace(items: PlacedItem[], x: number, y: number) {
   return !items.some(it => it.x===x && it.y===y);
 }
 
-export function computePowerAndLoads(items: PlacedItem[]): {
+// A freshly placed item: power sources start switched off (diesel with a
+// full tank, batteries flat) and depots start empty
+export function withStartState(it: PlacedItem): PlacedItem {
+  if (isGenerator(it.defKey)) {
+    if (burnsFuel(it.defKey)) return { ...it, on: false, fuel: 100 };
+    return isBattery(it.defKey) ? { ...it, on: false, charge: 0 } : { ...it, on: false };
+  }
+  if (isVendor(it.defKey)) return { ...it, stock: stockMax(it.defKey) };
+  return isDepot(it.defKey) ? { ...it, stock: 0 } : it;
+}
+
+// Which generator powers a consumer, and how
+export interface PowerFeed {
+  genId: string;
+  via: "wire" | "radius";
+}
+
+export interface PowerResult {
   powerMap: boolean[][];
   genLoads: Record<string, number>; // generator.id -> total power supplied
-} {
-  const powerMap: boolean[][] = Array.from({ length: GRID_H }, () => Array(GRID_W).fill(false));
-  const genLoads: Record<string, number> = {};
+  feeds: Record<string, PowerFeed>; // consumer.id -> feeding generator
+  supply: Record<string, number>;   // consumer.id -> share of its power that arrives (0..1)
+  networks: PowerNetwork[];         // cable networks (wired/hybrid only)
+  networkOf: Record<string, number>; // cabled item id -> index in networks
+  overloads: Record<string, number>; // generator.id -> demand above its network's rated capacity
+  charging: Record<string, number>;  // battery.id -> power flowing into it
+}
+
+const emptyPower = (): PowerResult => ({
+  powerMap: Array.from({ length: GRID_H }, () => Array(GRID_W).fill(false)),
+  genLoads: {},
+  feeds: {},
+  supply: {},
+  networks: [],
+  networkOf: {},
+  overloads: {},
+  charging: {},
+});
+
+const runningGens = (items: PlacedItem[]) => items.filter(isRunning);
+
+/**
+ * Radius allocator: each running source powers the nearest consumers in its
+ * range until what it can supply right now is used. Starting from `base` tops
+ * up an existing (wired) allocation with whatever capacity is left — the
+ * "hybrid" model. Batteries only charge over cables.
+ */
+export function computePowerAndLoads(
+  items: PlacedItem[],
+  timeMin: number,
+  base?: PowerResult
+): PowerResult {
+  const out: PowerResult = base ? structuredClone(base) : emptyPower();
 
-  // running generators with fuel
-  const gens = items.filter(i => i.defKey === "genny" && i.on && (i.fuel ?? 0) > 0);
   // items that need power
   const consumers = items.filter(i => ITEM_DEFS[i.defKey].power > 0);
 
-  // Greedy assignment: for each generator, power nearest consumers within radius until capacity is full.
-  const alreadyPowered = new Set<string>(); // "x,y" of tiles powered by some gen
-  for (const g of gens) {
-    let capacityLeft = GEN_CAPACITY;
-    genLoads[g.id] = 0;
+  // solar and diesel claim devices before batteries do
+  const sources = runningGens(items).sort((a, b) => sourceTier(a.defKey) - sourceTier(b.defKey));
+  for (const g of sources) {
+    if (out.charging[g.id]) continue; // a charging battery isn't supplying
+    let capacityLeft = sourceCapacity(g, timeMin) - (out.genLoads[g.id] ?? 0);
+    out.genLoads[g.id] = out.genLoads[g.id] ?? 0;
 
     // candidates within radius, sorted by distance to this generator
-    const radius = ITEM_DEFS.genny.range ?? 4;
+    const radius = ITEM_DEFS[g.defKey].range ?? 4;
     const cands = consumers
-      .filter(c => {
-        const d = Math.hypot(c.x - g.x, c.y - g.y);
-        return d <= radius;
-      })
-      .sort((a, b) => {
-        const da = Math.hypot(a.x - g.x, a.y - g.y);
-        const db = Math.hypot(b.x - g.x, b.y - g.y);
-        return da - db;
-      });
+      .filter(c => Math.hypot(c.x - g.x, c.y - g.y) <= radius)
+      .sort((a, b) => Math.hypot(a.x - g.x, a.y - g.y) - Math.hypot(b.x - g.x, b.y - g.y));
 
     for (const c of cands) {
-      const key = `${c.x},${c.y}`;
-      if (alreadyPowered.has(key)) continue;
+      if (out.feeds[c.id]) continue; // already powered by some gen
       const draw = ITEM_DEFS[c.defKey].power;
-      if (draw <= 0) continue;
       if (draw > capacityLeft) continue; // not enough capacity
 
       // allocate
       capacityLeft -= draw;
-      genLoads[g.id] += draw;
-      alreadyPowered.add(key);
-      powerMap[c.y][c.x] = true;
+      out.genLoads[g.id] += draw;
+      out.feeds[c.id] = { genId: g.id, via: "radius" };
+      out.supply[c.id] = 1;
+      out.powerMap[c.y][c.x] = true;
     }
   }
 
-  return { powerMap, genLoads };
+  return out;
 }
-export function computePowerFromWires(items: PlacedItem[], wires: Wire[]) {
-  const powerMap: boolean[][] = Array.from({ length: GRID_H }, () => Array(GRID_W).fill(false));
-  const genLoads: Record<string, number> = {};
 
-  const itemById = new Map(items.map(i => [i.id, i]));
-  const runningGens = items.filter(i => i.defKey === "genny" && i.on && (i.fuel ?? 0) > 0);
+// Split a network's load over its sources — solar, then diesel, then
+// batteries, in proportion to capacity within each kind — then charge the
+// batteries from whatever solar and diesel have spare.
+function shareLoad(out: PowerResult, sources: PlacedItem[], load: number, timeMin: number) {
+  const cap = new Map(sources.map(g => [g.id, sourceCapacity(g, timeMin)]));
+  for (const g of sources) out.genLoads[g.id] = 0;
+  const spread = (tiers: number[], amount: number) => {
+    for (const tier of tiers) {
+      const group = sources.filter(g => sourceTier(g.defKey) === tier);
+      const room = group.map(g => cap.get(g.id)! - out.genLoads[g.id]);
+      const total = room.reduce((n, r) => n + r, 0);
+      const take = Math.min(amount, total);
+      if (take <= 0) continue;
+      group.forEach((g, i) => (out.genLoads[g.id] += (take * room[i]) / total));
+      amount -= take;
+    }
+  };
+  spread([0, 1, 2], load);
 
-  // group wires by generator
-  const byGen = new Map<string, Wire[]>();
-  for (const w of wires) {
-    if (!byGen.has(w.fromGenId)) byGen.set(w.fromGenId, []);
-    byGen.get(w.fromGenId)!.push(w);
-  }
+  const hungry = sources.filter(b =>
+    isBattery(b.defKey) &&
+    out.genLoads[b.id] === 0 &&
+    (b.charge ?? 0) < batteryStorage(b.defKey)
+  );
+  if (hungry.length === 0) return;
+  const spare = sources
+    .filter(g => sourceTier(g.defKey) < 2)
+    .reduce((n, g) => n + cap.get(g.id)! - out.genLoads[g.id], 0);
+  const wanted = hungry.reduce((n, b) => n + ratedCapacity(b.defKey), 0);
+  const flow = Math.min(spare, wanted);
+  if (flow <= 0) return;
+  for (const b of hungry) out.charging[b.id] = (flow * ratedCapacity(b.defKey)) / wanted;
+  spread([0, 1], flow);
+}
 
-  for (const g of runningGens) {
-    let capLeft = GEN_CAPACITY;
-    genLoads[g.id] = 0;
+/**
+ * Wired allocator over the cable graph (see powerGraph.ts): each network's
+ * running sources pool what they can supply at `timeMin`, devices are served
+ * in order of voltage drop, and the load is shared between the sources.
+ * Devices whose supply falls below BROWNOUT_CUTOFF don't run (and don't
+ * draw). A network whose demand is above its rated capacity is listed in
+ * `overloads`; the sim trips its sources.
+ */
+export function computePowerFromWires(
+  items: PlacedItem[],
+  wires: Wire[],
+  timeMin: number
+): PowerResult {
+  const out = emptyPower();
+  const itemById = new Map(items.map(i => [i.id, i]));
+  const { networks, networkOf } = buildNetworks(items, wires, timeMin);
+  out.networks = networks;
+  out.networkOf = networkOf;
 
-    const links = (byGen.get(g.id) || [])
-      .map(w => ({ w, it: itemById.get(w.toItemId) }))
-      .filter(x => !!x.it)
-      // tiny quality: prefer shorter links first
-      .sort((a, b) => a.w.length - b.w.length);
+  for (const net of networks) {
+    if (net.genIds.length === 0) continue;
+    const drop = cableDistances(wires, net.genIds, cableLoss);
+    const consumers = net.nodeIds
+      .map(id => itemById.get(id)!)
+      .filter(it => ITEM_DEFS[it.defKey].power > 0)
+      .sort((a, b) => drop.get(a.id)!.dist - drop.get(b.id)!.dist);
 
-    for (const { it } of links) {
-      const consumer = it!;
-      const draw = ITEM_DEFS[consumer.defKey].power;
-      if (draw <= 0) continue;
+    let capLeft = net.capacity;
+    let demand = 0;
+    for (const c of consumers) {
+      const draw = ITEM_DEFS[c.defKey].power;
+      const supply = Math.max(0, 1 - drop.get(c.id)!.dist);
+      if (supply < BROWNOUT_CUTOFF) continue;
+      demand += draw;
       if (draw > capLeft) continue;
-
       capLeft -= draw;
-      genLoads[g.id] += draw;
-      powerMap[consumer.y][consumer.x] = true; // mark tile powered
+      net.load += draw;
+      out.feeds[c.id] = { genId: drop.get(c.id)!.source, via: "wire" };
+      out.supply[c.id] = supply;
+      out.powerMap[c.y][c.x] = true; // mark tile powered
+    }
+
+    shareLoad(out, net.genIds.map(id => itemById.get(id)!), net.load, timeMin);
+    if (demand > net.rated) {
+      for (const g of net.genIds) out.overloads[g] = demand - net.rated;
     }
   }
 
-  return { powerMap, genLoads };
-}
-export function scoreAll(items: PlacedItem[], powerMap: boolean[][]): Score {
-  let vibe = 0; let noise = 0;
-  const decks = items.filter(i=>i.defKey==='deck');
-  const speakers = items.filter(i=>i.defKey==='speaker_s' || i.defKey==='speaker_l');
-  const tents = items.filter(i=>i.defKey==='tent');
-  const lights = items.filter(i=>i.defKey==='light');
+  // running generators with no cables still idle at zero load
+  for (const g of runningGens(items)) out.genLoads[g.id] ??= 0;
 
-  for (const it of items) {
-    const def = ITEM_DEFS[it.defKey];
-    const basePowered = powerMap[it.y]?.[it.x] ?? false;
-    let localVibe = def.baseVibe;
-    let localNoise = def.noise;
-
-    const needsPower = def.power > 0;
-    if (needsPower && !basePowered) {
-        localVibe = 0;        // ⬅ no output if unpowered
-        localNoise += 1;      // a tiny hum / setup noise if you want to keep this
-    }
+  return out;
+}
 
-    if (it.defKey === 'speaker_s' || it.defKey === 'speaker_l') {
-      const nearDeck = decks.some(d => dist2(d.x, d.y, it.x, it.y) <= 3);
-      if (nearDeck) localVibe += Math.round(def.baseVibe * 0.5);
-      const closeSpk = speakers.some(s => s.id !== it.id && dist2(s.x, s.y, it.x, it.y) <= 2);
-      if (closeSpk) localVibe -= 4;
-      if (it.defKey === 'speaker_l') {
-        const affectedTents = tents.filter(t => dist2(t.x, t.y, it.x, it.y) <= 2);
-        localVibe -= affectedTents.length * 0.5;
-      }
-    }
+/** Power allocation under the session's power model at time of day `timeMin`. */
+export function computePower(
+  items: PlacedItem[],
+  wires: Wire[],
+  model: PowerModel,
+  timeMin: number
+): PowerResult {
+  if (model === "radius") return computePowerAndLoads(items, timeMin);
+  const wired = computePowerFromWires(items, wires, timeMin);
+  return model === "hybrid" ? computePowerAndLoads(items, timeMin, wired) : wired;
+}
 
-    if (it.defKey === 'tent') {
-      const nearLight = lights.some(l => dist2(l.x, l.y, it.x, it.y) <= 2);
-      if (nearLight) localVibe += 3;
-      const nearBig = speakers.some(s => s.defKey==='speaker_l' && dist2(s.x, s.y, it.x, it.y) <= 2);
-      if (nearBig) localVibe -= 1.5;
-    }
+/**
+ * How far over capacity a tripped generator's network would be if its breaker
+ * were reset now (together with any other tripped generators on the same
+ * network). 0 means it's safe to reset.
+ */
+export function breakerOverload(items: PlacedItem[], wires: Wire[], genId: string): number {
+  const group = trippedGroup(items, wires, genId);
+  const retry = items.map(i =>
+    group.has(i.id) ? { ...i, on: true, tripped: false, trippedOver: undefined } : i
+  );
+  // overloads are measured against rated capacity, so the time of day doesn't matter
+  return computePowerFromWires(retry, wires, 0).overloads[genId] ?? 0;
+}
 
-    vibe += Math.round(localVibe);
-    noise += Math.max(0, Math.round(localNoise));
+// Layout score: per-item scores from the synergy rules (rules.ts), then a
+// soft cap where total noise above 12 eats into vibe, and trip hazards
+export function scoreAll(
+  items: PlacedItem[],
+  powerMap: boolean[][],
+  opts: ScoreOptions = {}
+): Score {
+  let vibe = 0; let noise = 0;
+  for (const s of Object.values(scoreItems(items, powerMap, opts))) {
+    vibe += s.vibe;
+    noise += s.noise;
   }
 
   if (noise > 12) vibe -= Math.round((noise - 12) * 1.5);
+  vibe -= (opts.tripHazards ?? 0) * TRIP_HAZARD_VIBE;
+  vibe -= (opts.bottlenecks ?? 0) * CONGESTION_VIBE;
   return { vibe: Math.max(0, Math.round(vibe)), noise };
 }
 
@@ -152,13 +272,14 @@ export function vibeToTier(v: number) {
   return 4;
 }
 
-export function cryptoRandomId() {
-  if ("randomUUID" in crypto) return (crypto as any).randomUUID();
-  return Math.random().toString(36).slice(2);
+// New item/wire id from the seeded "ids" stream (replays reproduce ids too)
+export function newId(): string {
+  return rng.stream("ids").id();
 }
 
 // Estimate a simple per-tile vibe field for crowd attraction.
 // Items add their baseVibe with soft falloff by distance; unpowered consumers contribute 0.
+// Directional items (speakers) only project a fraction of it outside their cone.
 export function computeVibeField(items: PlacedItem[], powerMap: boolean[][]): number[][] {
   const field: number[][] = Array.from({ length: GRID_H }, () => Array(GRID_W).fill(0));
   for (const it of items) {
@@ -172,7 +293,8 @@ export function computeVibeField(items: PlacedItem[], powerMap: boolean[][]): nu
       for (let x = Math.max(0, it.x - r - 2); x <= Math.min(GRID_W - 1, it.x + r + 2); x++) {
         const d = Math.hypot(x - it.x, y - it.y);
         const falloff = 1 / (1 + Math.max(0, d - 0.25)); // gentle 1/r falloff
-        field[y][x] += strength * falloff;
+        const aim = inCone(it, x, y) ? 1 : CONE_BACKSPILL;
+        field[y][x] += strength * falloff * aim;
       }
     }
   }
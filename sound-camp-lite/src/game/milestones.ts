@@ -15,8 +15,12 @@ export interface Goal {
     crowd: number;
     vibe: number;
     noise: number;
-    built: Record<string, number>;   // counts by defKey
-    powered: Record<string, number>; // counts by defKey that are powered
+    built: Record<string, number>;       // counts by defKey
+    powered: Record<string, number>;     // counts by defKey that are powered
+    builtTags: Record<string, number>;   // counts by catalog tag
+    poweredTags: Record<string, number>; // counts by catalog tag that are powered
+    boundaryDb: number;      // loudest neighbour boundary (dB)
+    boundaryExcess: number;  // worst zone's dB over its limit (≤ 0 = all quiet)
   }) => boolean;
 }
 
@@ -35,7 +39,7 @@ export function defaultGoals(): Goal[] {
       deadlineMin: 18 * 60, // Day 1 18:00
       reward: 150,
       status: "pending",
-      condition: (s) => has(s.powered, "deck", 1),
+      condition: (s) => has(s.poweredTags, "deck", 1),
     },
     {
       id: "g2",
@@ -58,8 +62,8 @@ export function defaultGoals(): Goal[] {
       reward: 250,
       status: "pending",
       condition: (s) =>
-        has(s.powered, "deck", 1) &&
-        (s.powered["speaker_s"] ?? 0) + (s.powered["speaker_l"] ?? 0) >= 2,
+        has(s.poweredTags, "deck", 1) &&
+        has(s.poweredTags, "speaker", 2),
     },
 
     // --- Day 1: comfort ---
@@ -72,7 +76,7 @@ export function defaultGoals(): Goal[] {
       reward: 200,
       status: "pending",
       condition: (s) =>
-        has(s.built, "tent", 2) && has(s.powered, "light", 1),
+        has(s.builtTags, "tent", 2) && has(s.poweredTags, "light", 1),
     },
 
     // --- Day 2: progression ---
@@ -85,7 +89,7 @@ export function defaultGoals(): Goal[] {
       reward: 250,
       status: "pending",
       condition: (s) =>
-        has(s.powered, "speaker_l", 1) && has(s.powered, "light", 1),
+        has(s.poweredTags, "large", 1) && has(s.poweredTags, "light", 1),
     },
     {
       id: "g6",
@@ -121,10 +125,9 @@ export function defaultGoals(): Goal[] {
       status: "pending",
       condition: (s) => {
         const poweredTotal =
-          (s.powered["speaker_s"] ?? 0) +
-          (s.powered["speaker_l"] ?? 0) +
-          (s.powered["deck"] ?? 0) +
-          (s.powered["light"] ?? 0);
+          (s.poweredTags["speaker"] ?? 0) +
+          (s.poweredTags["deck"] ?? 0) +
+          (s.poweredTags["light"] ?? 0);
         return poweredTotal >= 6;
       },
     },
@@ -141,12 +144,12 @@ export function defaultGoals(): Goal[] {
     {
       id: "g10",
       title: "Respect the Neighbours",
-      desc: "Maintain noise ≤ 12 while crowd is at least 150.",
+      desc: "Keep every neighbour boundary under its dB limit while crowd is at least 150.",
       deadlineDay: 3,
       deadlineMin: 24 * 60 - 1, // End of Day 3
       reward: 400,
       status: "pending",
-      condition: (s) => s.crowd >= 150 && s.noise <= 12,
+      condition: (s) => s.crowd >= 150 && s.boundaryExcess <= 0,
     },
   ];
 }
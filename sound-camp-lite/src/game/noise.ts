@@ -0,0 +1,114 @@
+// src/game/noise.ts
+//
+// Spatial noise. Every item is a point source whose level is taken from its
+// rule-adjusted noise score (rules.ts), falls off with distance, is quieter
+// outside a speaker's cone and is absorbed by tents in the way. Levels from
+// several sources add up energetically, like real dB.
+
+import {
+  GRID_H,
+  GRID_W,
+  NOISE_DB_FLOOR,
+  NOISE_DB_REF,
+  TENT_BLOCK_DB,
+} from "./constants";
+import { hasTag } from "./catalog";
+import { CONE_BACKSPILL_DB, inCone } from "./cone";
+import { scoreItems, type ScoreOptions } from "./rules";
+import type { NeighbourZone, PlacedItem } from "./types";
+
+interface Source {
+  it: PlacedItem;
+  db: number; // level one tile away
+}
+
+export interface BoundaryLevel {
+  zone: NeighbourZone;
+  db: number;     // loudest tile of the zone
+  excess: number; // db - limit (positive = they are complaining)
+}
+
+function sourcesOf(items: PlacedItem[], powerMap: boolean[][], opts: ScoreOptions): Source[] {
+  const scores = scoreItems(items, powerMap, opts);
+  return items
+    .filter((it) => (scores[it.id]?.noise ?? 0) > 0)
+    .map((it) => ({ it, db: NOISE_DB_REF + 10 * Math.log10(scores[it.id].noise) }));
+}
+
+// Tents crossed by the straight line between two tiles (ends excluded)
+function tentsBetween(tents: Set<string>, ax: number, ay: number, bx: number, by: number) {
+  if (tents.size === 0) return 0;
+  const steps = Math.ceil(Math.hypot(bx - ax, by - ay) * 2);
+  const seen = new Set<string>();
+  for (let i = 1; i < steps; i++) {
+    const x = Math.round(ax + ((bx - ax) * i) / steps);
+    const y = Math.round(ay + ((by - ay) * i) / steps);
+    if ((x === ax && y === ay) || (x === bx && y === by)) continue;
+    const k = `${x},${y}`;
+    if (tents.has(k)) seen.add(k);
+  }
+  return seen.size;
+}
+
+function levelAt(sources: Source[], tents: Set<string>, x: number, y: number) {
+  let energy = Math.pow(10, NOISE_DB_FLOOR / 10);
+  for (const { it, db } of sources) {
+    const d = Math.max(1, Math.hypot(x - it.x, y - it.y));
+    let l = db - 20 * Math.log10(d);
+    if (!inCone(it, x, y)) l -= CONE_BACKSPILL_DB;
+    l -= TENT_BLOCK_DB * tentsBetween(tents, it.x, it.y, x, y);
+    energy += Math.pow(10, l / 10);
+  }
+  return 10 * Math.log10(energy);
+}
+
+function tentTiles(items: PlacedItem[]) {
+  return new Set(items.filter((i) => hasTag(i.defKey, "tent")).map((i) => `${i.x},${i.y}`));
+}
+
+/** Per-tile noise level in dB (for the noise map overlay). */
+export function computeNoiseField(
+  items: PlacedItem[],
+  powerMap: boolean[][],
+  opts: ScoreOptions = {}
+): number[][] {
+  const sources = sourcesOf(items, powerMap, opts);
+  const tents = tentTiles(items);
+  return Array.from({ length: GRID_H }, (_, y) =>
+    Array.from({ length: GRID_W }, (_, x) => levelAt(sources, tents, x, y))
+  );
+}
+
+export function zoneTiles(zone: NeighbourZone): { x: number; y: number }[] {
+  const out: { x: number; y: number }[] = [];
+  const horizontal = zone.edge === "top" || zone.edge === "bottom";
+  const max = horizontal ? GRID_W - 1 : GRID_H - 1;
+  for (let i = Math.max(0, zone.from); i <= Math.min(max, zone.to); i++) {
+    if (zone.edge === "top") out.push({ x: i, y: 0 });
+    else if (zone.edge === "bottom") out.push({ x: i, y: GRID_H - 1 });
+    else if (zone.edge === "left") out.push({ x: 0, y: i });
+    else out.push({ x: GRID_W - 1, y: i });
+  }
+  return out;
+}
+
+/** Loudest level along each neighbour zone (only evaluates the edge tiles). */
+export function boundaryLevels(
+  items: PlacedItem[],
+  powerMap: boolean[][],
+  zones: NeighbourZone[],
+  opts: ScoreOptions = {}
+): BoundaryLevel[] {
+  const sources = sourcesOf(items, powerMap, opts);
+  const tents = tentTiles(items);
+  return zones.map((zone) => {
+    let db = NOISE_DB_FLOOR;
+    for (const t of zoneTiles(zone)) db = Math.max(db, levelAt(sources, tents, t.x, t.y));
+    db = Math.round(db * 10) / 10;
+    return { zone, db, excess: Math.round((db - zone.limitDb) * 10) / 10 };
+  });
+}
+
+// Worst zone, as used by goals and complaints (-Infinity with no zones)
+export const worstExcess = (levels: BoundaryLevel[]) =>
+  levels.reduce((m, l) => Math.max(m, l.excess), -Infinity);
@@ -0,0 +1,159 @@
+// src/game/pathfinding.ts
+//
+// Crowd pathfinding with flow fields. Rather than every agent searching for
+// its own path, each tile agents are heading to gets one field: the walking
+// cost from every tile on the grid to it, spread out from the goal with
+// Dijkstra. An agent just steps to its cheapest neighbouring tile. Item tiles
+// are walls (the goal excepted, so a blocked entrance still works); walkway
+// tiles are quicker, so the crowd keeps to them while they're clear. Fields
+// only depend on the terrain, so they're cached per goal tile — at most one
+// per tile on the grid — until an item is placed, moved or removed.
+//
+// Choosing where to go runs the search the other way round: one spread from
+// the agent gives the walk to every spot it's weighing up at once.
+
+import { GRID_H, GRID_W, WALKWAY_WALK_SPEED } from "./constants";
+import { walkwayTiles } from "./routing";
+import type { PlacedItem, Tile, Walkway } from "./types";
+
+export const tileKey = (x: number, y: number) => y * GRID_W + x;
+
+export interface Terrain {
+  blocked: Set<number>; // tiles an item stands on
+  walk: Set<number>;    // walkway tiles
+  id: string;           // identifies the layout for the field cache
+}
+
+export function terrainOf(items: PlacedItem[], walkways: Walkway[]): Terrain {
+  const blocked = new Set(items.map((i) => tileKey(i.x, i.y)));
+  const walk = walkwayTiles(walkways);
+  const id = [...blocked].sort((a, b) => a - b).join(",") + "|" +
+    [...walk].sort((a, b) => a - b).join(",");
+  return { blocked, walk, id };
+}
+
+// 8-way steps; diagonals can't cut the corner of a wall
+const STEPS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+] as const;
+
+// Cost of stepping onto a tile: walkways are walked faster
+const stepCost = (t: Terrain, k: number, diagonal: boolean) =>
+  (diagonal ? Math.SQRT2 : 1) / (t.walk.has(k) ? WALKWAY_WALK_SPEED : 1);
+
+function canStep(t: Terrain, x: number, y: number, dx: number, dy: number): boolean {
+  const nx = x + dx;
+  const ny = y + dy;
+  if (nx < 0 || ny < 0 || nx >= GRID_W || ny >= GRID_H) return false;
+  if (dx && dy && (t.blocked.has(tileKey(x + dx, y)) || t.blocked.has(tileKey(x, y + dy)))) {
+    return false;
+  }
+  return true;
+}
+
+// Dijkstra over the grid from `starts`. Towards the starts (`inward`) it's the
+// cost of walking from each tile to them, otherwise the cost of walking out
+// from them to each tile (Infinity where walled off).
+function spread(t: Terrain, starts: number[], inward: boolean): Float64Array {
+  const cost = new Float64Array(GRID_W * GRID_H).fill(Infinity);
+  // Binary heap of [cost, tile]; the grid is small, this is plenty
+  const heap: [number, number][] = [];
+  const push = (c: number, k: number) => {
+    heap.push([c, k]);
+    for (let i = heap.length - 1; i > 0; ) {
+      const p = (i - 1) >> 1;
+      if (heap[p][0] <= heap[i][0]) break;
+      [heap[p], heap[i]] = [heap[i], heap[p]];
+      i = p;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length) {
+      heap[0] = last;
+      for (let i = 0; ; ) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < heap.length && heap[l][0] < heap[m][0]) m = l;
+        if (r < heap.length && heap[r][0] < heap[m][0]) m = r;
+        if (m === i) break;
+        [heap[m], heap[i]] = [heap[i], heap[m]];
+        i = m;
+      }
+    }
+    return top;
+  };
+
+  for (const k of starts) {
+    cost[k] = 0;
+    push(0, k);
+  }
+  while (heap.length) {
+    const [c, k] = pop();
+    if (c > cost[k]) continue;
+    const x = k % GRID_W;
+    const y = Math.floor(k / GRID_W);
+    for (const [dx, dy] of STEPS) {
+      if (!canStep(t, x, y, dx, dy)) continue;
+      // Inward the agent walks from nk onto k, outward from k onto nk
+      const nk = tileKey(x + dx, y + dy);
+      if (t.blocked.has(nk)) continue;
+      const nc = c + stepCost(t, inward ? k : nk, dx !== 0 && dy !== 0);
+      if (nc < cost[nk]) {
+        cost[nk] = nc;
+        push(nc, nk);
+      }
+    }
+  }
+  return cost;
+}
+
+// Fields for the current layout, by goal tile. A field is a pure function of
+// the terrain and the goal, so this is only memoisation, and it can't hold
+// more than GRID_W × GRID_H fields before the layout changes and it's dropped.
+let cache: { terrain: string; fields: Map<number, Float64Array> } = { terrain: "", fields: new Map() };
+
+/** Flow field towards `goal` (cached per layout). */
+export function flowField(t: Terrain, goal: Tile): Float64Array {
+  if (cache.terrain !== t.id) cache = { terrain: t.id, fields: new Map() };
+  const k = tileKey(goal.x, goal.y);
+  let field = cache.fields.get(k);
+  if (!field) {
+    field = spread(t, [k], true);
+    cache.fields.set(k, field);
+  }
+  return field;
+}
+
+/** Walking cost from `from` to every tile (item tiles can't be walked onto). */
+export function costsFrom(t: Terrain, from: Tile): Float64Array {
+  return spread(t, [tileKey(from.x, from.y)], false);
+}
+
+/**
+ * The neighbouring tile to step to from `from` (the cheapest one that's
+ * cheaper than where it stands), or null if there's no way on.
+ */
+export function nextTile(t: Terrain, field: Float64Array, from: Tile): Tile | null {
+  let best: Tile | null = null;
+  let bestCost = t.blocked.has(tileKey(from.x, from.y)) ? Infinity : field[tileKey(from.x, from.y)];
+  for (const [dx, dy] of STEPS) {
+    if (!canStep(t, from.x, from.y, dx, dy)) continue;
+    const c = field[tileKey(from.x + dx, from.y + dy)];
+    if (c < bestCost) {
+      bestCost = c;
+      best = { x: from.x + dx, y: from.y + dy };
+    }
+  }
+  return best;
+}
+
+/** Walking cost from `from` along a field (an agent on an item tile steps off first). */
+export function pathCost(t: Terrain, field: Float64Array, from: Tile): number {
+  if (!t.blocked.has(tileKey(from.x, from.y))) return field[tileKey(from.x, from.y)];
+  const next = nextTile(t, field, from);
+  return next ? field[tileKey(next.x, next.y)] + 1 : Infinity;
+}
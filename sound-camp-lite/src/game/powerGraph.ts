@@ -0,0 +1,185 @@
+// src/game/powerGraph.ts
+//
+// Cables form an undirected graph over power nodes: generators, distribution
+// boxes and anything that draws power (so devices can be daisy-chained). Each
+// connected piece of the graph is a network. Networks are kept loop-free — a
+// cable that would close a ring is refused — so there's exactly one cable
+// path from any device back to each generator on its network.
+//
+// Load balancing: every running source on a network pools what it can supply
+// right now (energy.ts), devices are served nearest-first (least voltage
+// drop), and the load goes to solar first, then diesel, then batteries.
+// Within each kind it's split in proportion to capacity, so generators burn
+// fuel at the same rate instead of one running dry first. Spare solar and
+// diesel capacity charges the network's batteries.
+//
+// Voltage drop: each cable loses a share of the voltage per tile depending on
+// its gauge, so a device at the end of a long thin run only gets part of its
+// power. The generator still supplies the full draw; the rest is lost as heat.
+//
+// Overload: if the devices on a network want more than its sources are rated
+// for, every running source on it trips its breaker and shuts off (the sun
+// going down or a flat battery just leaves devices unpowered). A
+// tripped generator stays off until the player sheds load and resets it.
+
+import { CABLE_GAUGES, ITEM_DEFS } from "./constants";
+import { hasTag, isGenerator } from "./catalog";
+import { burnsFuel, ratedCapacity, sourceCapacity } from "./energy";
+import type { ItemKey, PlacedItem, Wire } from "./types";
+
+export interface PowerNetwork {
+  nodeIds: string[];
+  genIds: string[];  // running sources only
+  capacity: number;  // what those sources can supply right now
+  rated: number;     // their nameplate capacity (overloads trip against this)
+  load: number;      // power actually delivered
+}
+
+export const isDistribution = (key: ItemKey) => hasTag(key, "distribution");
+
+// Anything a cable can plug into
+export const isPowerNode = (key: ItemKey) =>
+  isGenerator(key) || isDistribution(key) || (ITEM_DEFS[key]?.power ?? 0) > 0;
+
+export const isRunning = (it: PlacedItem) =>
+  isGenerator(it.defKey) && !!it.on && !it.tripped && (!burnsFuel(it.defKey) || (it.fuel ?? 0) > 0);
+
+type Link = { to: string; wire: Wire };
+
+export function adjacency(wires: Wire[]): Map<string, Link[]> {
+  const adj = new Map<string, Link[]>();
+  const add = (a: string, b: string, wire: Wire) => {
+    if (!adj.has(a)) adj.set(a, []);
+    adj.get(a)!.push({ to: b, wire });
+  };
+  for (const w of wires) {
+    add(w.fromId, w.toId, w);
+    add(w.toId, w.fromId, w);
+  }
+  return adj;
+}
+
+// Share of the voltage lost along one cable
+export const cableLoss = (w: Wire) => w.length * CABLE_GAUGES[w.gauge].lossPerTile;
+
+/** True if a cable from `a` to `b` would close a loop (or joins a node to itself). */
+export function wouldCreateCycle(wires: Wire[], a: string, b: string): boolean {
+  if (a === b) return true;
+  const adj = adjacency(wires);
+  const seen = new Set([a]);
+  const queue = [a];
+  while (queue.length) {
+    const n = queue.shift()!;
+    for (const { to } of adj.get(n) ?? []) {
+      if (to === b) return true;
+      if (!seen.has(to)) {
+        seen.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return false;
+}
+
+/** Ids of cables that close a loop, in list order (the first cable of a ring is kept). */
+export function findCycleWires(wires: Pick<Wire, "id" | "fromId" | "toId">[]): string[] {
+  const parent = new Map<string, string>();
+  const root = (n: string): string => {
+    let r = n;
+    while (parent.has(r) && parent.get(r) !== r) r = parent.get(r)!;
+    parent.set(n, r);
+    return r;
+  };
+  const closing: string[] = [];
+  for (const w of wires) {
+    const ra = root(w.fromId);
+    const rb = root(w.toId);
+    if (ra === rb) closing.push(w.id);
+    else parent.set(ra, rb);
+  }
+  return closing;
+}
+
+/**
+ * Split the cabled items into networks. `networkOf` maps every cabled item id
+ * to its index in `networks`; items without cables aren't listed. Solar output
+ * depends on `timeMin`.
+ */
+export function buildNetworks(
+  items: PlacedItem[],
+  wires: Wire[],
+  timeMin: number
+): { networks: PowerNetwork[]; networkOf: Record<string, number> } {
+  const itemById = new Map(items.map((i) => [i.id, i]));
+  const adj = adjacency(wires.filter((w) => itemById.has(w.fromId) && itemById.has(w.toId)));
+  const networks: PowerNetwork[] = [];
+  const networkOf: Record<string, number> = {};
+
+  for (const start of adj.keys()) {
+    if (start in networkOf) continue;
+    const net: PowerNetwork = { nodeIds: [], genIds: [], capacity: 0, rated: 0, load: 0 };
+    const stack = [start];
+    networkOf[start] = networks.length;
+    while (stack.length) {
+      const id = stack.pop()!;
+      net.nodeIds.push(id);
+      const it = itemById.get(id)!;
+      if (isRunning(it)) {
+        net.genIds.push(id);
+        net.capacity += sourceCapacity(it, timeMin);
+        net.rated += ratedCapacity(it.defKey);
+      }
+      for (const { to } of adj.get(id) ?? []) {
+        if (to in networkOf) continue;
+        networkOf[to] = networks.length;
+        stack.push(to);
+      }
+    }
+    networks.push(net);
+  }
+  return { networks, networkOf };
+}
+
+/** Ids of the tripped generators that reset together with `genId`: those on its network. */
+export function trippedGroup(items: PlacedItem[], wires: Wire[], genId: string): Set<string> {
+  const { networkOf } = buildNetworks(items, wires, 0); // only the topology matters
+  const net = networkOf[genId];
+  const group = new Set([genId]);
+  for (const i of items) {
+    if (i.tripped && net != null && networkOf[i.id] === net) group.add(i.id);
+  }
+  return group;
+}
+
+/**
+ * Distance from the nearest of `sources` to every node reachable from them,
+ * plus which source that was. Cables are weighed by `weight` (their length
+ * unless told otherwise; voltage loss for power delivery).
+ */
+export function cableDistances(
+  wires: Wire[],
+  sources: string[],
+  weight: (w: Wire) => number = (w) => w.length
+): Map<string, { dist: number; source: string }> {
+  const adj = adjacency(wires);
+  const best = new Map<string, { dist: number; source: string }>();
+  for (const s of sources) best.set(s, { dist: 0, source: s });
+  const open = [...sources];
+  // Networks are small trees, so a plain "pick the closest open node" loop is plenty
+  while (open.length) {
+    let k = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (best.get(open[i])!.dist < best.get(open[k])!.dist) k = i;
+    }
+    const id = open.splice(k, 1)[0];
+    const here = best.get(id)!;
+    for (const { to, wire } of adj.get(id) ?? []) {
+      const dist = here.dist + weight(wire);
+      const prev = best.get(to);
+      if (prev && prev.dist <= dist) continue;
+      best.set(to, { dist, source: here.source });
+      open.push(to);
+    }
+  }
+  return best;
+}
@@ -0,0 +1,167 @@
+// src/game/replay.ts
+//
+// Replay logs: the starting state, the rng seed and every player command
+// stamped with the sim tick it was issued at. Feeding the log back through
+// applyCommand() + simulateStep() reproduces the session exactly.
+
+import { applyCommand, type Command } from "./commands";
+import { computePower, scoreAll } from "./logic";
+import { rng } from "./rng";
+import {
+  addGauge,
+  addLegacyPath,
+  upgradeWire,
+  type WireV1,
+  type WireV7,
+  type WireV8,
+} from "./saveSchema";
+import type { PlacedItem, Wire } from "./types";
+import {
+  dehydrateSimState,
+  hydrateSimState,
+  scoreOptions,
+  simulateStep,
+  SIM_DT,
+  type SimState,
+  type SimStateData,
+} from "./sim";
+
+export interface ReplayEntry {
+  tick: number;  // sim tick the command was applied before
+  day: number;   // in-game timestamp, for humans reading the log
+  min: number;
+  cmd: Command;
+}
+
+export interface ReplayOutcome {
+  money: number;
+  vibe: number;
+  crowd: number;
+}
+
+export interface ReplayLog {
+  v: 1;
+  dt: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  start: SimStateData;
+  entries: ReplayEntry[];
+  endTick: number;
+  final?: ReplayOutcome;
+}
+
+export function outcomeOf(state: SimState): ReplayOutcome {
+  // Scored exactly as the sim and the HUD score it
+  const { powerMap, supply } = computePower(state.items, state.wires, state.powerModel, state.timeMin);
+  const { vibe } = scoreAll(state.items, powerMap, scoreOptions(state, supply));
+  return {
+    money: Math.round(state.money * 100) / 100,
+    vibe,
+    crowd: Math.round(state.crowd),
+  };
+}
+
+export function startRecording(state: SimState): ReplayLog {
+  return {
+    v: 1,
+    dt: SIM_DT,
+    seed: rng.seed,
+    rngStreams: rng.streamStates(),
+    start: structuredClone(dehydrateSimState(state)),
+    entries: [],
+    endTick: state.tick,
+  };
+}
+
+export function recordCommand(log: ReplayLog, state: SimState, cmd: Command) {
+  log.entries.push({
+    tick: state.tick,
+    day: state.dayNum,
+    min: Math.floor(state.timeMin),
+    cmd: structuredClone(cmd),
+  });
+}
+
+export function finishRecording(log: ReplayLog, state: SimState): ReplayLog {
+  return { ...log, endTick: state.tick, final: outcomeOf(state) };
+}
+
+// Entries scheduled for `tick`, starting the scan at `from`; returns the next index
+export function takeDueEntries(
+  log: ReplayLog,
+  tick: number,
+  from: number
+): { due: ReplayEntry[]; next: number } {
+  let i = from;
+  const due: ReplayEntry[] = [];
+  while (i < log.entries.length && log.entries[i].tick <= tick) {
+    due.push(log.entries[i]);
+    i++;
+  }
+  return { due, next: i };
+}
+
+export function beginPlayback(log: ReplayLog): SimState {
+  rng.restore(log.seed, log.rngStreams);
+  return hydrateSimState(structuredClone(log.start), log.seed);
+}
+
+/**
+ * Run a replay headlessly (no browser needed) and compare the outcome with
+ * the one recorded in the log.
+ */
+export function playReplay(log: ReplayLog): {
+  state: SimState;
+  outcome: ReplayOutcome;
+  matches: boolean | null; // null when the log has no recorded outcome
+} {
+  let state = beginPlayback(log);
+  let idx = 0;
+  for (;;) {
+    const { due, next } = takeDueEntries(log, state.tick, idx);
+    idx = next;
+    for (const e of due) state = applyCommand(state, e.cmd).state;
+    if (state.tick >= log.endTick) break;
+    state = simulateStep(state, log.dt).state;
+  }
+  const outcome = outcomeOf(state);
+  const matches = log.final
+    ? log.final.money === outcome.money &&
+      log.final.vibe === outcome.vibe &&
+      log.final.crowd === outcome.crowd
+    : null;
+  return { state, outcome, matches };
+}
+
+export function parseReplay(text: string): ReplayLog {
+  const raw = JSON.parse(text);
+  if (!raw || raw.v !== 1 || !Array.isArray(raw.entries) || !raw.start) {
+    throw new Error("Not a Sound Camp replay file.");
+  }
+  return upgradeLegacyWires(raw as ReplayLog);
+}
+
+// Logs recorded before cables could link any two nodes, before routing or
+// before cable gauges
+function upgradeLegacyWires(log: ReplayLog): ReplayLog {
+  const up = (items: PlacedItem[]) => (w: Wire | WireV8 | WireV7 | WireV1): Wire => {
+    const linked = "fromGenId" in w ? upgradeWire(w) : w;
+    const routed = "path" in linked ? (linked as WireV8) : addLegacyPath(linked, items);
+    return "gauge" in routed ? (routed as Wire) : addGauge(routed);
+  };
+  log.start.wires = log.start.wires.map(up(log.start.items));
+  for (const e of log.entries) {
+    const cmd = e.cmd as
+      | Command
+      | { type: "wire"; id: string; fromGenId: string; toItemId: string }
+      | { type: "wire"; id: string; fromId: string; toId: string };
+    if (cmd.type === "wire" && "fromGenId" in cmd) {
+      e.cmd = { type: "wire", id: cmd.id, fromId: cmd.fromGenId, toId: cmd.toItemId, gauge: "thin" };
+    } else if (cmd.type === "wire" && !("gauge" in cmd)) {
+      e.cmd = { ...cmd, gauge: "thin" };
+    } else if (cmd.type === "restore") {
+      e.cmd = { ...cmd, wires: cmd.wires.map(up(cmd.items)) };
+    }
+  }
+  return log;
+}
@@ -0,0 +1,104 @@
+// src/game/rng.ts
+//
+// Seeded randomness. Every random decision in the game (crowd agents, item
+// ids, the audio noise bed) draws from a named stream of the shared `rng`
+// service, so a session can be replayed exactly from its seed.
+
+export interface Rng {
+  next(): number;                  // [0, 1)
+  range(lo: number, hi: number): number;
+  int(lo: number, hi: number): number; // lo inclusive, hi exclusive
+  id(): string;
+  getState(): number;
+  setState(state: number): void;
+}
+
+// mulberry32: tiny, fast and good enough for gameplay
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    range: (lo, hi) => lo + next() * (hi - lo),
+    int: (lo, hi) => lo + Math.floor(next() * (hi - lo)),
+    id: () =>
+      Math.floor(next() * 0xffffffff).toString(36).padStart(7, "0") +
+      Math.floor(next() * 0xffffffff).toString(36).padStart(7, "0"),
+    getState: () => a,
+    setState: (s) => {
+      a = s >>> 0;
+    },
+  };
+}
+
+// FNV-1a, used to derive independent per-stream seeds from the session seed
+function hashString(s: string, seed: number) {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+// The only place allowed to use non-deterministic entropy: picking a fresh seed.
+export function randomSeed(): number {
+  if (typeof crypto !== "undefined" && "getRandomValues" in crypto) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+export type RngStreamName = "agents" | "ids" | "audio";
+
+class RngService {
+  private seedValue: number;
+  private streams = new Map<string, Rng>();
+
+  constructor(seed: number) {
+    this.seedValue = seed >>> 0;
+  }
+
+  get seed() {
+    return this.seedValue;
+  }
+
+  // Reset every stream so the session replays from the start of `seed`
+  reseed(seed: number) {
+    this.seedValue = seed >>> 0;
+    this.streams.clear();
+  }
+
+  // Stream positions, saved alongside the seed so a loaded session keeps
+  // drawing fresh values (and never re-issues ids already in the layout)
+  streamStates(): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const [name, r] of this.streams) out[name] = r.getState();
+    return out;
+  }
+
+  restore(seed: number, states: Record<string, number> = {}) {
+    this.reseed(seed);
+    for (const [name, st] of Object.entries(states)) {
+      this.stream(name as RngStreamName).setState(st);
+    }
+  }
+
+  // Streams are independent so e.g. audio init timing can't shift agent spawns
+  stream(name: RngStreamName): Rng {
+    let r = this.streams.get(name);
+    if (!r) {
+      r = createRng(hashString(name, this.seedValue));
+      this.streams.set(name, r);
+    }
+    return r;
+  }
+}
+
+export const rng = new RngService(randomSeed());
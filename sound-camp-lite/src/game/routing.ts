@@ -0,0 +1,167 @@
+// src/game/routing.ts
+//
+// Cable routing. A cable runs tile by tile (4-way) from one item to another,
+// never through a tile another item stands on, and passes through any
+// waypoints the player dragged it to. Routes are found with A*; walkway tiles
+// cost extra so cables go around foot traffic when there's a sensible
+// detour, and any walkway tile a cable still crosses is a trip hazard.
+
+import { GRID_H, GRID_W, WALKWAY_ROUTE_PENALTY } from "./constants";
+import type { PlacedItem, Tile, Walkway, Wire } from "./types";
+
+const key = (x: number, y: number) => y * GRID_W + x;
+const STEPS: Tile[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+export function walkwayTiles(walkways: Walkway[]): Set<number> {
+  const out = new Set<number>();
+  for (const w of walkways) {
+    for (let y = Math.max(0, w.y); y < Math.min(GRID_H, w.y + w.h); y++) {
+      for (let x = Math.max(0, w.x); x < Math.min(GRID_W, w.x + w.w); x++) out.add(key(x, y));
+    }
+  }
+  return out;
+}
+
+// Shortest route between two tiles avoiding `blocked`; null if there's none
+function aStar(from: Tile, to: Tile, blocked: Set<number>, walk: Set<number>): Tile[] | null {
+  const goal = key(to.x, to.y);
+  const g = new Map<number, number>([[key(from.x, from.y), 0]]);
+  const came = new Map<number, number>();
+  const open = [key(from.x, from.y)];
+  const h = (k: number) => Math.abs((k % GRID_W) - to.x) + Math.abs(Math.floor(k / GRID_W) - to.y);
+
+  while (open.length) {
+    let best = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (g.get(open[i])! + h(open[i]) < g.get(open[best])! + h(open[best])) best = i;
+    }
+    const cur = open.splice(best, 1)[0];
+    if (cur === goal) {
+      const path: Tile[] = [];
+      for (let k: number | undefined = cur; k != null; k = came.get(k)) {
+        path.push({ x: k % GRID_W, y: Math.floor(k / GRID_W) });
+      }
+      return path.reverse();
+    }
+    const cx = cur % GRID_W;
+    const cy = Math.floor(cur / GRID_W);
+    for (const s of STEPS) {
+      const nx = cx + s.x;
+      const ny = cy + s.y;
+      if (nx < 0 || ny < 0 || nx >= GRID_W || ny >= GRID_H) continue;
+      const nk = key(nx, ny);
+      if (nk !== goal && blocked.has(nk)) continue;
+      const cost = g.get(cur)! + 1 + (walk.has(nk) ? WALKWAY_ROUTE_PENALTY : 0);
+      if (cost >= (g.get(nk) ?? Infinity)) continue;
+      g.set(nk, cost);
+      came.set(nk, cur);
+      if (!open.includes(nk)) open.push(nk);
+    }
+  }
+  return null;
+}
+
+/**
+ * Route a cable between two items through `waypoints` in order. Returns the
+ * full tile path (both item tiles included), or null if something is in the
+ * way or a waypoint sits on an item.
+ */
+export function routeCable(
+  items: PlacedItem[],
+  walkways: Walkway[],
+  from: Tile,
+  to: Tile,
+  waypoints: Tile[] = []
+): Tile[] | null {
+  const blocked = new Set(items.map((i) => key(i.x, i.y)));
+  if (waypoints.some((p) => blocked.has(key(p.x, p.y)))) return null;
+  const walk = walkwayTiles(walkways);
+  const stops = [from, ...waypoints, to];
+  const path: Tile[] = [from];
+  for (let i = 1; i < stops.length; i++) {
+    const leg = aStar(stops[i - 1], stops[i], blocked, walk);
+    if (!leg) return null;
+    path.push(...leg.slice(1));
+  }
+  return path;
+}
+
+/**
+ * Re-route every cable `affected` picks (after an item moved or landed on
+ * its route), keeping the player's waypoints where they're still free.
+ * Returns null if one of them can't be routed any more.
+ */
+export function rerouteWires(
+  items: PlacedItem[],
+  walkways: Walkway[],
+  wires: Wire[],
+  affected: (w: Wire) => boolean
+): Wire[] | null {
+  const occupied = new Set(items.map((i) => key(i.x, i.y)));
+  const out: Wire[] = [];
+  for (const w of wires) {
+    if (!affected(w)) {
+      out.push(w);
+      continue;
+    }
+    const a = items.find((i) => i.id === w.fromId);
+    const b = items.find((i) => i.id === w.toId);
+    if (!a || !b) return null;
+    const waypoints = w.waypoints.filter((p) => !occupied.has(key(p.x, p.y)));
+    const path = routeCable(items, walkways, a, b, waypoints);
+    if (!path) return null;
+    out.push({ ...w, path, waypoints, length: path.length - 1 });
+  }
+  return out;
+}
+
+export const crossesTile = (w: Wire, x: number, y: number) =>
+  w.path.some((p) => p.x === x && p.y === y);
+
+/** Walkway tiles with a cable across them (item tiles at the cable ends excluded). */
+export function tripHazards(wires: Wire[], walkways: Walkway[]): Tile[] {
+  const walk = walkwayTiles(walkways);
+  const seen = new Set<number>();
+  for (const w of wires) {
+    for (const p of w.path.slice(1, -1)) {
+      const k = key(p.x, p.y);
+      if (walk.has(k)) seen.add(k);
+    }
+  }
+  return [...seen].map((k) => ({ x: k % GRID_W, y: Math.floor(k / GRID_W) }));
+}
+
+// The old straight L-shaped run (across, then down) for cables saved before routing
+export function legacyPath(from: Tile, to: Tile): Tile[] {
+  const path: Tile[] = [{ x: from.x, y: from.y }];
+  const sx = Math.sign(to.x - from.x);
+  const sy = Math.sign(to.y - from.y);
+  for (let x = from.x + sx; sx !== 0 && x !== to.x + sx; x += sx) path.push({ x, y: from.y });
+  for (let y = from.y + sy; sy !== 0 && y !== to.y + sy; y += sy) path.push({ x: to.x, y });
+  return path;
+}
+
+/**
+ * Where a waypoint dragged from `tile` goes in a cable's waypoint list: the
+ * index of an existing waypoint on that tile, or the insert position that
+ * keeps the list in route order.
+ */
+export function waypointSlot(w: Wire, tile: Tile): { index: number; existing: boolean } {
+  const at = w.waypoints.findIndex((p) => p.x === tile.x && p.y === tile.y);
+  if (at >= 0) return { index: at, existing: true };
+  const pos = w.path.findIndex((p) => p.x === tile.x && p.y === tile.y);
+  let index = 0;
+  let from = 0;
+  for (const wp of w.waypoints) {
+    const i = w.path.findIndex((p, n) => n >= from && p.x === wp.x && p.y === wp.y);
+    if (i < 0 || i >= pos) break;
+    from = i;
+    index++;
+  }
+  return { index, existing: false };
+}
@@ -0,0 +1,126 @@
+// src/game/rules.ts
+//
+// Generic synergy/penalty engine. The rules themselves are data (the `rules`
+// table in catalog/base.json and mods); this file only knows how to apply
+// them, and keeps a per-item breakdown so the inspector can explain a score.
+
+import { activeRules, ITEM_DEFS } from "./catalog";
+import { BROWNOUT_AT } from "./constants";
+import { coneCoverage, inCone } from "./cone";
+import type { PlacedItem, SynergyRule } from "./types";
+
+export interface ScoreLine {
+  label: string;
+  stat: "vibe" | "noise";
+  delta: number; // unrounded contribution
+}
+
+export interface ItemScore {
+  vibe: number;  // rounded, as counted in the total
+  noise: number; // rounded, never negative
+  lines: ScoreLine[];
+}
+
+export interface ScoreOptions {
+  speakerCap?: number; // curfew limiter on items tagged "speaker" (1 = off)
+  tripHazards?: number; // cables across walkways; layout-wide, only scoreAll uses it
+  bottlenecks?: number; // tiles the crowd keeps queueing for; likewise
+  supply?: Record<string, number>; // share of power reaching each device (voltage drop)
+}
+
+// Multipliers scale the (powered) base before flat bonuses/penalties
+const ORDER: Record<SynergyRule["op"], number> = { mul: 0, add: 1 };
+
+export function scoreItems(
+  items: PlacedItem[],
+  powerMap: boolean[][],
+  opts: ScoreOptions = {},
+  rules: SynergyRule[] = activeRules()
+): Record<string, ItemScore> {
+  const cap = opts.speakerCap ?? 1;
+  const byTag = new Map<string, PlacedItem[]>();
+  for (const it of items) {
+    for (const tag of ITEM_DEFS[it.defKey]?.tags ?? []) {
+      if (!byTag.has(tag)) byTag.set(tag, []);
+      byTag.get(tag)!.push(it);
+    }
+  }
+  const ordered = [...rules].sort((a, b) => ORDER[a.op] - ORDER[b.op]);
+
+  const out: Record<string, ItemScore> = {};
+  for (const it of items) {
+    const def = ITEM_DEFS[it.defKey];
+    if (!def) continue;
+    const lines: ScoreLine[] = [];
+    const stats = { vibe: def.baseVibe, noise: def.noise };
+    if (def.baseVibe) lines.push({ label: "Base", stat: "vibe", delta: def.baseVibe });
+    if (def.noise) lines.push({ label: "Base", stat: "noise", delta: def.noise });
+
+    const powered = powerMap[it.y]?.[it.x] ?? false;
+    if (def.power > 0 && !powered) {
+      if (def.baseVibe) lines.push({ label: "No power", stat: "vibe", delta: -def.baseVibe });
+      lines.push({ label: "Unpowered hum", stat: "noise", delta: 1 });
+      stats.vibe = 0;
+      stats.noise += 1;
+    }
+
+    // Browned out at the end of a long cable run: vibe scales with supply
+    const supply = opts.supply?.[it.id] ?? 1;
+    if (def.power > 0 && powered && supply < BROWNOUT_AT && stats.vibe) {
+      const delta = -stats.vibe * (1 - supply);
+      lines.push({ label: `Brownout (${Math.round(supply * 100)}% power)`, stat: "vibe", delta });
+      stats.vibe += delta;
+    }
+
+    // Directional items lose the part of their cone that points off-site,
+    // and that part becomes noise for the neighbours instead
+    const coverage = coneCoverage(it);
+    if (coverage < 1) {
+      const lost = stats.vibe * (1 - coverage);
+      const spill = def.noise * (1 - coverage);
+      if (lost) lines.push({ label: "Cone aimed off-site", stat: "vibe", delta: -lost });
+      if (spill) lines.push({ label: "Sound spilling off-site", stat: "noise", delta: spill });
+      stats.vibe -= lost;
+      stats.noise += spill;
+    }
+    const base = { ...stats };
+
+    for (const rule of ordered) {
+      if (!def.tags.includes(rule.target)) continue;
+      const inRange = (byTag.get(rule.source) ?? []).filter(
+        (s) =>
+          s.id !== it.id &&
+          Math.hypot(s.x - it.x, s.y - it.y) <= rule.radius &&
+          (rule.cone !== "target" || inCone(it, s.x, s.y)) &&
+          (rule.cone !== "source" || inCone(s, it.x, it.y))
+      ).length;
+      if (inRange === 0) continue;
+
+      const times = rule.stack === "once" ? 1 : Math.min(inRange, rule.maxStacks ?? inRange);
+      const stat = rule.stat ?? "vibe";
+      const delta =
+        rule.op === "add"
+          ? rule.value * times
+          : base[stat] * (Math.pow(rule.value, times) - 1);
+      if (delta === 0) continue;
+      stats[stat] += delta;
+      lines.push({ label: times > 1 ? `${rule.label} ×${times}` : rule.label, stat, delta });
+    }
+
+    if (cap < 1 && def.tags.includes("speaker")) {
+      for (const stat of ["vibe", "noise"] as const) {
+        const delta = stats[stat] * (cap - 1);
+        if (!delta) continue;
+        stats[stat] += delta;
+        lines.push({ label: "Curfew limiter", stat, delta });
+      }
+    }
+
+    out[it.id] = {
+      vibe: Math.round(stats.vibe),
+      noise: Math.max(0, Math.round(stats.noise)),
+      lines,
+    };
+  }
+  return out;
+}
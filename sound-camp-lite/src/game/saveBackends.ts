@@ -0,0 +1,177 @@
+// src/game/saveBackends.ts
+//
+// Where saves physically live. storage.ts only talks to a SaveBackend, so
+// saves work the same in the browser (localStorage / IndexedDB), in private
+// windows where storage is blocked, and in Node (in-memory).
+
+export interface SaveBackend {
+  readonly kind: "localStorage" | "indexedDB" | "memory";
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string): Promise<string[]>; // keys starting with prefix
+}
+
+// Thrown by set() when the backend is out of space
+export class SaveQuotaError extends Error {
+  constructor(message = "Save storage is full.") {
+    super(message);
+    this.name = "SaveQuotaError";
+  }
+}
+
+function isQuotaError(err: unknown) {
+  if (!(err instanceof DOMException)) return false;
+  return (
+    err.name === "QuotaExceededError" ||
+    err.name === "NS_ERROR_DOM_QUOTA_REACHED" || // Firefox
+    err.code === 22 ||
+    err.code === 1014
+  );
+}
+
+export class MemoryBackend implements SaveBackend {
+  readonly kind = "memory";
+  private data = new Map<string, string>();
+
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async delete(key: string) {
+    this.data.delete(key);
+  }
+  async list(prefix = "") {
+    return [...this.data.keys()].filter((k) => k.startsWith(prefix));
+  }
+}
+
+export class LocalStorageBackend implements SaveBackend {
+  readonly kind = "localStorage";
+  private store: Storage;
+
+  constructor(store: Storage = localStorage) {
+    this.store = store;
+  }
+
+  async get(key: string) {
+    return this.store.getItem(key);
+  }
+  async set(key: string, value: string) {
+    try {
+      this.store.setItem(key, value);
+    } catch (err) {
+      if (isQuotaError(err)) throw new SaveQuotaError();
+      throw err;
+    }
+  }
+  async delete(key: string) {
+    this.store.removeItem(key);
+  }
+  async list(prefix = "") {
+    const out: string[] = [];
+    for (let i = 0; i < this.store.length; i++) {
+      const k = this.store.key(i);
+      if (k != null && k.startsWith(prefix)) out.push(k);
+    }
+    return out;
+  }
+}
+
+export class IndexedDbBackend implements SaveBackend {
+  readonly kind = "indexedDB";
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private static STORE = "saves";
+
+  constructor(dbName = "scb") {
+    this.dbName = dbName;
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.dbName, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(IndexedDbBackend.STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    op: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.db();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(IndexedDbBackend.STORE, mode);
+      const req = op(tx.objectStore(IndexedDbBackend.STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = tx.onabort = () => {
+        const err = tx.error ?? req.error;
+        reject(isQuotaError(err) ? new SaveQuotaError() : err);
+      };
+    });
+  }
+
+  async get(key: string) {
+    const v = await this.run("readonly", (s) => s.get(key));
+    return typeof v === "string" ? v : null;
+  }
+  async set(key: string, value: string) {
+    await this.run("readwrite", (s) => s.put(value, key));
+  }
+  async delete(key: string) {
+    await this.run("readwrite", (s) => s.delete(key));
+  }
+  async list(prefix = "") {
+    const keys = await this.run("readonly", (s) => s.getAllKeys());
+    return keys.map(String).filter((k) => k.startsWith(prefix));
+  }
+}
+
+// How long to wait for IndexedDB to answer before giving up on it (some
+// locked-down browsers never fire open's success or error)
+const IDB_PROBE_MS = 3000;
+
+async function probe(b: SaveBackend) {
+  const key = "scb:probe";
+  await b.set(key, "1");
+  await b.delete(key);
+}
+
+/**
+ * localStorage when it is usable, else IndexedDB (some browsers block one
+ * but not the other), else memory — check `kind` and warn the player, since
+ * in-memory saves are gone on reload.
+ */
+export async function detectBackend(): Promise<SaveBackend> {
+  try {
+    if (typeof localStorage !== "undefined") {
+      const ls = new LocalStorageBackend(localStorage);
+      await probe(ls);
+      return ls;
+    }
+  } catch (err) {
+    // Full but readable: keep it so existing saves still load
+    if (err instanceof SaveQuotaError) return new LocalStorageBackend(localStorage);
+    /* otherwise blocked (private mode, disabled cookies…) */
+  }
+  try {
+    if (typeof indexedDB !== "undefined") {
+      const idb = new IndexedDbBackend();
+      await Promise.race([
+        probe(idb),
+        new Promise((_, reject) => setTimeout(() => reject(new Error("IndexedDB timed out")), IDB_PROBE_MS)),
+      ]);
+      return idb;
+    }
+  } catch {
+    /* blocked too */
+  }
+  return new MemoryBackend();
+}
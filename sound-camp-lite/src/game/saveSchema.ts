@@ -0,0 +1,341 @@
+// src/game/saveSchema.ts
+//
+// Versioned save formats. Every format bump adds a GameStateVn type and one
+// migration step, and migrateSave() walks old saves up the chain, so
+// anything ever written to localStorage keeps loading.
+
+import { DEFAULT_NEIGHBOURS, DEFAULT_WALKWAYS, GRID_H, GRID_W, TICKET_DEFAULT_PRICE } from "./constants";
+import type { GoalStatus } from "./milestones";
+import type { Need, NeighbourZone, PlacedItem, PowerModel, Tile, Walkway, Wire } from "./types";
+import { initialComplaints, type ComplaintState } from "./complaints";
+import { initialPopulation, type Agent, type Population } from "./crowd";
+import { findCycleWires } from "./powerGraph";
+import { legacyPath } from "./routing";
+import { initialLedger } from "./ledger";
+import { defaultGate, type SimStateData } from "./sim";
+import type { Sale } from "./vendors";
+import { randomSeed } from "./rng";
+
+// Before V7 a cable always ran from a generator to a device
+export type WireV1 = {
+  id: string;
+  fromGenId: string;
+  toItemId: string;
+  length: number;
+};
+
+export type GameStateV1 = {
+  v: 1;
+  ts: number;           // epoch ms
+  money: number;
+  items: PlacedItem[];
+  wires?: WireV1[];
+  seed?: number;        // rng seed the session was started with
+  rngStreams?: Record<string, number>; // rng stream positions at save time
+};
+
+// V2: the full session (clock, crowd, goal statuses, sim tick)
+export type GameStateV2 = {
+  v: 2;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  items: PlacedItem[];
+  wires: WireV1[];
+  money: number;
+  crowd: number;
+  dayNum: number;
+  timeMin: number;
+  tick: number;
+  goals: Record<string, GoalStatus>;
+};
+
+// V3: which item catalogs (base + mods) the layout was built with
+export type GameStateV3 = Omit<GameStateV2, "v"> & {
+  v: 3;
+  catalog: string; // catalogVersion(), e.g. "base@1.0.0+subwoofers@0.2.0"
+};
+
+// V4: neighbour boundary zones travel with the session
+export type GameStateV4 = Omit<GameStateV3, "v"> & {
+  v: 4;
+  neighbours: NeighbourZone[];
+};
+
+// V5: complaint pressure, curfew and incident log
+export type GameStateV5 = Omit<GameStateV4, "v"> & {
+  v: 5;
+  complaints: ComplaintState;
+};
+
+// V6: power model setting
+export type GameStateV6 = Omit<GameStateV5, "v"> & {
+  v: 6;
+  powerModel: PowerModel;
+};
+
+// V7: cables link any two power nodes
+export type WireV7 = {
+  id: string;
+  fromId: string;
+  toId: string;
+  length: number;
+};
+
+export type GameStateV7 = Omit<GameStateV6, "v" | "wires"> & {
+  v: 7;
+  wires: WireV7[];
+};
+
+// V8: routed cable paths + walkways
+export type WireV8 = WireV7 & {
+  path: Tile[];
+  waypoints: Tile[];
+};
+
+export type GameStateV8 = Omit<GameStateV7, "v" | "wires"> & {
+  v: 8;
+  wires: WireV8[];
+  walkways: Walkway[];
+};
+
+// V9: cable gauge
+export type GameStateV9 = Omit<SimStateData, "fuelOrders" | "population" | "ticketPrice" | "ledger"> & {
+  v: 9;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  catalog: string;
+};
+
+// V10: fuel deliveries on their way
+export type GameStateV10 = Omit<SimStateData, "population" | "ticketPrice" | "ledger"> & {
+  v: 10;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  catalog: string;
+};
+
+// V11: crowd agents
+export type GameStateV11 = Omit<SimStateData, "population" | "ticketPrice" | "ledger"> & {
+  v: 11;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  catalog: string;
+  population: Omit<PopulationV13, "congestion" | "funnel">;
+};
+
+// V12: crowd congestion map
+export type GameStateV12 = Omit<SimStateData, "population" | "ticketPrice" | "ledger"> & {
+  v: 12;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  catalog: string;
+  population: Omit<PopulationV13, "funnel">;
+};
+
+// Before V14 agents had no food need
+type AgentV13 = Omit<Agent, "needs"> & { needs: Record<Exclude<Need, "food">, number> };
+type PopulationV13 = Omit<Population, "agents"> & { agents: AgentV13[] };
+
+// V13: entrance gates, ticket price, attendance funnel
+export type GameStateV13 = Omit<SimStateData, "population" | "ledger"> & {
+  v: 13;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  catalog: string;
+  population: PopulationV13;
+};
+
+// Before V15 vendor sales had a log of their own
+export type SaleV14 = Sale & { dayNum: number; timeMin: number };
+
+// V14: vendors, the food need, sales log
+export type GameStateV14 = Omit<SimStateData, "ledger"> & {
+  v: 14;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  catalog: string;
+  sales: SaleV14[];
+};
+
+// V15: finance ledger (SimStateData from here on)
+export type GameStateV15 = SimStateData & {
+  v: 15;
+  ts: number;
+  seed: number;
+  rngStreams: Record<string, number>;
+  catalog: string;
+};
+
+export type GameState = GameStateV15;
+export const SAVE_VERSION = 15;
+
+type VersionedSave = { v: number };
+type Migration = (s: VersionedSave) => VersionedSave;
+
+// MIGRATIONS[n] upgrades a version-n save to version n+1
+const MIGRATIONS: Record<number, Migration> = {
+  1: (s) => migrateV1toV2(s as GameStateV1),
+  2: (s) => migrateV2toV3(s as GameStateV2),
+  3: (s) => migrateV3toV4(s as GameStateV3),
+  4: (s) => migrateV4toV5(s as GameStateV4),
+  5: (s) => migrateV5toV6(s as GameStateV5),
+  6: (s) => migrateV6toV7(s as GameStateV6),
+  7: (s) => migrateV7toV8(s as GameStateV7),
+  8: (s) => migrateV8toV9(s as GameStateV8),
+  9: (s) => migrateV9toV10(s as GameStateV9),
+  10: (s) => migrateV10toV11(s as GameStateV10),
+  11: (s) => migrateV11toV12(s as GameStateV11),
+  12: (s) => migrateV12toV13(s as GameStateV12),
+  13: (s) => migrateV13toV14(s as GameStateV13),
+  14: (s) => migrateV14toV15(s as GameStateV14),
+};
+
+function migrateV1toV2(s: GameStateV1): GameStateV2 {
+  return {
+    v: 2,
+    ts: s.ts,
+    seed: s.seed ?? randomSeed(),
+    rngStreams: s.rngStreams ?? {},
+    money: s.money,
+    items: s.items,
+    wires: s.wires ?? [],
+    // V1 never stored progress: start the clock and objectives fresh
+    crowd: 0,
+    dayNum: 1,
+    timeMin: 0,
+    tick: 0,
+    goals: {},
+  };
+}
+
+// Everything before V3 could only use the built-in items
+function migrateV2toV3(s: GameStateV2): GameStateV3 {
+  return { ...s, v: 3, catalog: "base@1.0.0" };
+}
+
+function migrateV3toV4(s: GameStateV3): GameStateV4 {
+  return { ...s, v: 4, neighbours: structuredClone(DEFAULT_NEIGHBOURS) };
+}
+
+function migrateV4toV5(s: GameStateV4): GameStateV5 {
+  return { ...s, v: 5, complaints: initialComplaints() };
+}
+
+// Saves before V6 only ever had wired power
+function migrateV5toV6(s: GameStateV5): GameStateV6 {
+  return { ...s, v: 6, powerModel: "wired" };
+}
+
+export const upgradeWire = (w: WireV1): WireV7 => ({
+  id: w.id,
+  fromId: w.fromGenId,
+  toId: w.toItemId,
+  length: w.length,
+});
+
+// Old layouts could wire one device to two generators; drop any cable that
+// would now close a loop
+function migrateV6toV7(s: GameStateV6): GameStateV7 {
+  const wires = s.wires.map(upgradeWire);
+  const loops = new Set(findCycleWires(wires));
+  return { ...s, v: 7, wires: wires.filter((w) => !loops.has(w.id)) };
+}
+
+// Unrouted cables keep the L-shaped run they were always drawn with
+export function addLegacyPath(w: WireV7, items: PlacedItem[]): WireV8 {
+  const a = items.find((i) => i.id === w.fromId);
+  const b = items.find((i) => i.id === w.toId);
+  return { ...w, path: a && b ? legacyPath(a, b) : [], waypoints: [] };
+}
+
+function migrateV7toV8(s: GameStateV7): GameStateV8 {
+  return {
+    ...s,
+    v: 8,
+    wires: s.wires.map((w) => addLegacyPath(w, s.items)),
+    walkways: structuredClone(DEFAULT_WALKWAYS),
+  };
+}
+
+// Every cable before V9 was the standard thin one
+export const addGauge = (w: WireV8): Wire => ({ ...w, gauge: "thin" });
+
+function migrateV8toV9(s: GameStateV8): GameStateV9 {
+  return { ...s, v: 9, wires: s.wires.map(addGauge) };
+}
+
+function migrateV9toV10(s: GameStateV9): GameStateV10 {
+  return { ...s, v: 10, fuelOrders: [] };
+}
+
+// The crowd was a number before; agents arrive fresh (the old crowd figure
+// stays until the first step recounts it)
+function migrateV10toV11(s: GameStateV10): GameStateV11 {
+  return { ...s, v: 11, population: initialPopulation(s.seed) };
+}
+
+function migrateV11toV12(s: GameStateV11): GameStateV12 {
+  return {
+    ...s,
+    v: 12,
+    population: { ...s.population, congestion: Array(GRID_W * GRID_H).fill(0) },
+  };
+}
+
+// Agents used to walk in off the main walkway: put a gate there if the tile's
+// free (otherwise the player has to place one before anyone else turns up)
+function migrateV12toV13(s: GameStateV12): GameStateV13 {
+  const gate = defaultGate();
+  const free = !s.items.some((i) => (i.x === gate.x && i.y === gate.y) || i.id === gate.id);
+  return {
+    ...s,
+    v: 13,
+    items: free ? [...s.items, gate] : s.items,
+    population: { ...s.population, funnel: [] },
+    ticketPrice: TICKET_DEFAULT_PRICE,
+  };
+}
+
+// Everyone on site has just eaten
+function migrateV13toV14(s: GameStateV13): GameStateV14 {
+  return {
+    ...s,
+    v: 14,
+    population: {
+      ...s.population,
+      agents: s.population.agents.map((a) => ({ ...a, needs: { ...a.needs, food: 0 } })),
+    },
+    sales: [],
+  };
+}
+
+// The books open on load. The sales log goes: vendor sales are booked in
+// the ledger from here on
+function migrateV14toV15(s: GameStateV14): GameStateV15 {
+  const next: GameStateV15 & { sales?: SaleV14[] } = { ...s, v: 15, ledger: initialLedger() };
+  delete next.sales;
+  return next;
+}
+
+/**
+ * Bring any known save version up to SAVE_VERSION.
+ * Returns null for unknown or newer-than-supported versions.
+ */
+export function migrateSave(raw: unknown): GameState | null {
+  if (!raw || typeof raw !== "object") return null;
+  let s = raw as VersionedSave;
+  if (typeof s.v !== "number" || s.v > SAVE_VERSION) return null;
+  while (s.v < SAVE_VERSION) {
+    const step = MIGRATIONS[s.v];
+    if (!step) return null;
+    s = step(s);
+  }
+  return s as GameState;
+}
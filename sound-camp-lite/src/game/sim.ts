@@ -0,0 +1,375 @@
+// src/game/sim.ts
+//
+// Headless simulation engine. Everything that used to live in the App.tsx RAF
+// loop (crowd agents, fuel drain, ticket and vendor sales, the ledger, clock,
+// milestones) is a pure function of the previous state and a time step, so it
+// can run in Node for balancing as well as in the browser.
+
+import {
+  CROWD_ENTRY,
+  DEFAULT_NEIGHBOURS,
+  DEFAULT_WALKWAYS,
+  GAME_MINUTES_PER_SEC,
+  GEN_BASE_FUEL_DRAIN,
+  GEN_FUEL_PER_POWER,
+  START_MONEY,
+  TICKET_DEFAULT_PRICE,
+} from "./constants";
+import { ITEM_DEFS } from "./catalog";
+import { burnsFuel, stepBatteries } from "./energy";
+import { computePower, scoreAll } from "./logic";
+import { defaultGoals, isPast, type Goal, type GoalStatus } from "./milestones";
+import { boundaryLevels, worstExcess, type BoundaryLevel } from "./noise";
+import {
+  initialComplaints,
+  speakerCap,
+  stepComplaints,
+  type ComplaintState,
+  type Incident,
+} from "./complaints";
+import { bottlenecks, initialPopulation, stepCrowd, type Population } from "./crowd";
+import { stepFuel, type FuelOrder } from "./fuel";
+import { tripHazards } from "./routing";
+import type { ScoreOptions } from "./rules";
+import { book, initialLedger, type DayPnL, type Entry, type Ledger } from "./ledger";
+import { takeStock } from "./vendors";
+import type { NeighbourZone, PlacedItem, PowerModel, Score, Walkway, Wire } from "./types";
+
+export interface SimState {
+  items: PlacedItem[];
+  wires: Wire[];
+  money: number;
+  crowd: number;
+  dayNum: number;   // 1-based
+  timeMin: number;  // 0..1439
+  goals: Goal[];
+  tick: number;     // fixed steps simulated so far (replay timestamps)
+  neighbours: NeighbourZone[]; // boundary zones that hear the camp (noise.ts)
+  complaints: ComplaintState;  // night-time complaint pressure, curfew, incident log
+  powerModel: PowerModel;      // scenario setting: how generators reach consumers
+  walkways: Walkway[];         // foot traffic routes cables shouldn't cross (routing.ts)
+  fuelOrders: FuelOrder[];     // fuel deliveries on their way to depots (fuel.ts)
+  population: Population;      // crowd agents and their needs (crowd.ts)
+  ticketPrice: number;         // $ per person at the gates
+  ledger: Ledger;              // every money change, and the daily P&L (ledger.ts)
+}
+
+// Plain-JSON form of SimState: goal conditions are code, so only statuses travel
+export interface SimStateData extends Omit<SimState, "goals"> {
+  goals: Record<string, GoalStatus>;
+}
+
+// Fixed step used by the UI loop and replays (deterministic regardless of FPS)
+export const SIM_DT = 1 / 60;
+
+export type SimEvent =
+  | { kind: "goalCompleted"; goal: Goal }
+  | { kind: "goalFailed"; goal: Goal }
+  | { kind: "incident"; incident: Incident }
+  | { kind: "breakerTripped"; genId: string; over: number }
+  | { kind: "fuelDelivered"; order: FuelOrder }
+  | { kind: "soldOut"; itemId: string }
+  | { kind: "dayClosed"; pnl: DayPnL };
+
+export interface SimStepResult {
+  state: SimState;
+  events: SimEvent[];
+}
+
+export type GoalSnapshot = Parameters<Goal["condition"]>[0];
+
+// `seed` starts the crowd's own random stream
+export function initialSimState(seed = 1): SimState {
+  return {
+    items: [defaultGate()],
+    wires: [],
+    money: START_MONEY,
+    crowd: 0,
+    dayNum: 1,
+    timeMin: 0,
+    goals: defaultGoals(),
+    tick: 0,
+    neighbours: structuredClone(DEFAULT_NEIGHBOURS),
+    complaints: initialComplaints(),
+    powerModel: "wired",
+    walkways: structuredClone(DEFAULT_WALKWAYS),
+    fuelOrders: [],
+    population: initialPopulation(seed),
+    ticketPrice: TICKET_DEFAULT_PRICE,
+    ledger: initialLedger(),
+  };
+}
+
+// Every camp starts with a way in at the end of the main walkway
+export const defaultGate = (): PlacedItem => ({
+  id: "gate",
+  defKey: "gate",
+  x: CROWD_ENTRY.x,
+  y: CROWD_ENTRY.y,
+  rot: 0,
+});
+
+export function dehydrateSimState(state: SimState): SimStateData {
+  const goals: Record<string, GoalStatus> = {};
+  for (const g of state.goals) goals[g.id] = g.status;
+  return { ...state, goals };
+}
+
+// `seed` is the session seed the data was saved or recorded with
+export function hydrateSimState(data: SimStateData, seed: number): SimState {
+  return {
+    ...data,
+    // older replay logs predate these
+    neighbours: data.neighbours ?? structuredClone(DEFAULT_NEIGHBOURS),
+    complaints: data.complaints ?? initialComplaints(),
+    powerModel: data.powerModel ?? "wired",
+    walkways: data.walkways ?? structuredClone(DEFAULT_WALKWAYS),
+    fuelOrders: data.fuelOrders ?? [],
+    population: { ...initialPopulation(seed), ...data.population },
+    ticketPrice: data.ticketPrice ?? TICKET_DEFAULT_PRICE,
+    ledger: data.ledger ?? initialLedger(),
+    goals: defaultGoals().map((g) => ({ ...g, status: data.goals[g.id] ?? g.status })),
+  };
+}
+
+// Snapshot handed to goal conditions
+export function buildSnapshot(
+  state: SimState,
+  powerMap: boolean[][],
+  score: Score,
+  boundary: BoundaryLevel[]
+): GoalSnapshot {
+  const built: Record<string, number> = {};
+  const powered: Record<string, number> = {};
+  const builtTags: Record<string, number> = {};
+  const poweredTags: Record<string, number> = {};
+  const bump = (m: Record<string, number>, k: string) => (m[k] = (m[k] ?? 0) + 1);
+  for (const it of state.items) {
+    const tags = ITEM_DEFS[it.defKey]?.tags ?? [];
+    const p = powerMap[it.y]?.[it.x] ?? false;
+    bump(built, it.defKey);
+    for (const t of tags) bump(builtTags, t);
+    if (!p) continue;
+    bump(powered, it.defKey);
+    for (const t of tags) bump(poweredTags, t);
+  }
+  return {
+    money: state.money,
+    crowd: Math.round(state.crowd),
+    vibe: score.vibe,
+    noise: score.noise,
+    built,
+    powered,
+    builtTags,
+    poweredTags,
+    boundaryDb: boundary.reduce((m, l) => Math.max(m, l.db), 0),
+    boundaryExcess: worstExcess(boundary),
+  };
+}
+
+function drainFuel(
+  items: PlacedItem[],
+  genLoads: Record<string, number>,
+  dt: number
+): PlacedItem[] {
+  return items.map((i) => {
+    if (!burnsFuel(i.defKey) || !i.on) return i;
+    const load = genLoads[i.id] ?? 0;
+    const perSec = GEN_BASE_FUEL_DRAIN + load * GEN_FUEL_PER_POWER;
+    const newFuel = Math.max(0, (i.fuel ?? 100) - dt * perSec);
+    return { ...i, fuel: newFuel, on: newFuel > 0 };
+  });
+}
+
+// Overloaded generators trip: off until the player resets the breaker
+function tripBreakers(
+  items: PlacedItem[],
+  overloads: Record<string, number>,
+  events: SimEvent[]
+): PlacedItem[] {
+  if (Object.keys(overloads).length === 0) return items;
+  return items.map((i) => {
+    const over = overloads[i.id];
+    if (over == null) return i;
+    events.push({ kind: "breakerTripped", genId: i.id, over });
+    return { ...i, on: false, tripped: true, trippedOver: over };
+  });
+}
+
+function evaluateGoals(
+  goals: Goal[],
+  snap: GoalSnapshot,
+  dayNum: number,
+  timeMin: number,
+  events: SimEvent[]
+): { goals: Goal[]; rewards: Entry[] } {
+  const rewards: Entry[] = [];
+  let changed = false;
+  const next = goals.map((g) => {
+    if (g.status !== "pending") return g;
+
+    if (g.condition(snap)) {
+      changed = true;
+      rewards.push({ kind: "rewards", amount: g.reward, note: g.title });
+      const done = { ...g, status: "completed" as const };
+      events.push({ kind: "goalCompleted", goal: done });
+      return done;
+    }
+
+    if (isPast(g.deadlineDay, g.deadlineMin, dayNum, timeMin)) {
+      changed = true;
+      const failed = { ...g, status: "failed" as const };
+      events.push({ kind: "goalFailed", goal: failed });
+      return failed;
+    }
+
+    return g;
+  });
+  return { goals: changed ? next : goals, rewards };
+}
+
+// Everything scoring weighs beyond the layout: the curfew's speaker cap,
+// brownouts (`supply` from computePower), trip hazards and bottlenecks
+export function scoreOptions(
+  state: Pick<SimState, "complaints" | "wires" | "walkways" | "population">,
+  supply: Record<string, number>
+): ScoreOptions {
+  return {
+    speakerCap: speakerCap(state.complaints),
+    supply,
+    tripHazards: tripHazards(state.wires, state.walkways).length,
+    bottlenecks: bottlenecks(state.population).length,
+  };
+}
+
+/**
+ * Advance the simulation by `dt` seconds. Pure: the input state is never
+ * mutated, and the same state + dt always yields the same result.
+ */
+export function simulateStep(state: SimState, dt: number): SimStepResult {
+  const events: SimEvent[] = [];
+  const { powerMap, genLoads, supply, overloads, charging } = computePower(
+    state.items,
+    state.wires,
+    state.powerModel,
+    state.timeMin
+  );
+  const opts = scoreOptions(state, supply);
+  const score = scoreAll(state.items, powerMap, opts);
+  const boundary = boundaryLevels(state.items, powerMap, state.neighbours, opts);
+
+  // Milestones see the state as it was at the start of the step
+  const snap = buildSnapshot(state, powerMap, score, boundary);
+  const { goals, rewards } = evaluateGoals(
+    state.goals,
+    snap,
+    state.dayNum,
+    state.timeMin,
+    events
+  );
+
+  // Crowd: the vibe draws visitors to the gates, the price decides how many
+  // buy in, their needs decide how many are happy (and what they buy)
+  const { population, crowd, revenue, sales } = stepCrowd(
+    state.population,
+    {
+      items: state.items,
+      walkways: state.walkways,
+      powerMap,
+      vibe: score.vibe,
+      dayNum: state.dayNum,
+      timeMin: state.timeMin,
+      ticketPrice: state.ticketPrice,
+    },
+    dt
+  );
+
+  // Neighbours
+  const noise = stepComplaints(state.complaints, boundary, state.dayNum, state.timeMin, dt);
+  for (const incident of noise.incidents) events.push({ kind: "incident", incident });
+
+  // Economy: everything goes through the ledger. Fines only take what the
+  // camp has; rewards are paid after
+  const entries: Entry[] = [{ kind: "tickets", amount: revenue }];
+  for (const s of sales) {
+    entries.push({ kind: "sales", amount: s.amount, itemId: s.itemId, note: ITEM_DEFS[s.defKey]?.name });
+  }
+  let available = state.money + revenue + sales.reduce((sum, s) => sum + s.amount, 0);
+  for (const incident of noise.incidents) {
+    const fine = Math.min(incident.fine, available);
+    available -= fine;
+    entries.push({ kind: "fines", amount: -fine, note: incident.zone ?? incident.kind });
+  }
+  const { money, ledger } = book(state, [...entries, ...rewards]);
+
+  // Fuel and batteries, breakers, then deliveries and auto-refuel
+  const fuel = stepFuel(
+    tripBreakers(
+      stepBatteries(drainFuel(state.items, genLoads, dt), genLoads, charging, dt),
+      overloads,
+      events
+    ),
+    state.fuelOrders,
+    state.dayNum,
+    state.timeMin
+  );
+  for (const order of fuel.delivered) events.push({ kind: "fuelDelivered", order });
+
+  // Vendors: each sale takes a unit of stock; one event per vendor emptied
+  const items = takeStock(fuel.items, sales);
+  for (const id of new Set(sales.map((s) => s.itemId))) {
+    const had = fuel.items.find((i) => i.id === id)?.stock ?? 0;
+    if (had > 0 && items.find((i) => i.id === id)?.stock === 0) events.push({ kind: "soldOut", itemId: id });
+  }
+
+  // Clock
+  let timeMin = state.timeMin + dt * GAME_MINUTES_PER_SEC;
+  let dayNum = state.dayNum;
+  while (timeMin >= 24 * 60) {
+    timeMin -= 24 * 60;
+    dayNum += 1;
+  }
+  const closed = ledger.days[ledger.days.length - 1];
+  if (dayNum !== state.dayNum && closed) events.push({ kind: "dayClosed", pnl: closed });
+
+  return {
+    state: {
+      ...state,
+      items,
+      money,
+      ledger,
+      crowd,
+      dayNum,
+      timeMin,
+      goals,
+      complaints: noise.complaints,
+      fuelOrders: fuel.orders,
+      population,
+      tick: state.tick + 1,
+    },
+    events,
+  };
+}
+
+/**
+ * Run the engine for `seconds` of simulated time in fixed `dt` steps.
+ * Handy for balancing runs in Node (e.g. several in-game days at once).
+ */
+export function runSimulation(
+  state: SimState,
+  seconds: number,
+  dt = SIM_DT,
+  onEvent?: (e: SimEvent, s: SimState) => void
+): SimState {
+  let s = state;
+  const steps = Math.ceil(seconds / dt);
+  for (let i = 0; i < steps; i++) {
+    const r = simulateStep(s, dt);
+    s = r.state;
+    if (onEvent) for (const e of r.events) onEvent(e, s);
+  }
+  return s;
+}
+
+// One in-game day in real seconds
+export const SECONDS_PER_DAY = (24 * 60) / GAME_MINUTES_PER_SEC;
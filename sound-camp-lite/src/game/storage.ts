@@ -1,68 +1,195 @@
-import type { PlacedItem, Wire } from "./types";
+import { catalogVersion, parseCatalogFile, type CatalogFile } from "./catalog";
+import { rng } from "./rng";
+import { dehydrateSimState, hydrateSimState, type SimState } from "./sim";
+import { migrateSave, SAVE_VERSION, type GameState } from "./saveSchema";
+import { detectBackend, type SaveBackend } from "./saveBackends";
 
-export type GameStateV1 = {
-  v: 1;
-  ts: number;           // epoch ms
-  money: number;
-  items: PlacedItem[];
-  wires?: Wire[];
-};
+export type { GameState } from "./saveSchema";
+export { SaveQuotaError } from "./saveBackends";
 
 const AUTO_KEY = "scb:auto";
 const SAVE_PREFIX = "scb:save:"; // scb:save:<name>
-const INDEX_KEY = "scb:saves";   // JSON string of string[] names
+const META_PREFIX = "scb:meta:"; // scb:meta:<name> — SaveMeta, read by the save browser
+const MOD_PREFIX = "scb:mod:";   // scb:mod:<catalog id> — installed mod JSON
+
+// Lightweight summary stored next to each named save so the browser can list
+// slots without parsing (and migrating) every full save
+export interface SaveMeta {
+  name: string;
+  ts: number;
+  dayNum: number;
+  timeMin: number;
+  money: number;
+  vibe: number;
+  crowd: number;
+  goalsCompleted: number;
+  goalsTotal: number;
+  thumbnail?: string; // PNG data URL
+}
+
+// Extras only the UI knows (score, rendered preview)
+export type SaveMetaExtras = { vibe?: number; thumbnail?: string };
+
+// Picked once, on first use
+let backend: Promise<SaveBackend> | null = null;
+function getSaveBackend(): Promise<SaveBackend> {
+  backend ??= detectBackend();
+  return backend;
+}
+
+/** False when saves only live in memory and won't survive a reload. */
+export async function savesPersist(): Promise<boolean> {
+  const store = await getSaveBackend();
+  return store.kind !== "memory";
+}
+
+export function makeState(sim: SimState): GameState {
+  return {
+    ...structuredClone(dehydrateSimState(sim)),
+    v: SAVE_VERSION,
+    ts: Date.now(),
+    seed: rng.seed,
+    rngStreams: rng.streamStates(),
+    catalog: catalogVersion(),
+  };
+}
+
+// Turn a loaded save back into a live session (restores the rng streams too)
+export function restoreSession(s: GameState): SimState {
+  rng.restore(s.seed, s.rngStreams);
+  const {
+    items, wires, money, crowd, dayNum, timeMin, tick, goals, neighbours, complaints, powerModel,
+    walkways, fuelOrders, population, ticketPrice, ledger,
+  } = s;
+  return hydrateSimState({
+    items, wires, money, crowd, dayNum, timeMin, tick, goals, neighbours, complaints, powerModel,
+    walkways, fuelOrders, population, ticketPrice, ledger,
+  }, s.seed);
+}
+
+function parseSave(raw: string | null): GameState | null {
+  if (!raw) return null;
+  try { return migrateSave(JSON.parse(raw)); }
+  catch { return null; }
+}
 
-function readIndex(): string[] {
-  try { return JSON.parse(localStorage.getItem(INDEX_KEY) || "[]"); }
-  catch { return []; }
+// Writes reject with SaveQuotaError when the backend is full
+export async function saveAuto(state: GameState) {
+  const store = await getSaveBackend();
+  await store.set(AUTO_KEY, JSON.stringify(state));
 }
-function writeIndex(names: string[]) {
-  localStorage.setItem(INDEX_KEY, JSON.stringify(names));
+export async function loadAuto(): Promise<GameState | null> {
+  const store = await getSaveBackend();
+  return parseSave(await store.get(AUTO_KEY));
 }
 
-export function makeState(money: number, items: PlacedItem[], wires: Wire[] = []): GameStateV1 {
-  return { v: 1, ts: Date.now(), money, items, wires };
+function metaFor(name: string, s: GameState, extras: SaveMetaExtras = {}): SaveMeta {
+  const statuses = Object.values(s.goals);
+  return {
+    name,
+    ts: s.ts,
+    dayNum: s.dayNum,
+    timeMin: s.timeMin,
+    money: s.money,
+    vibe: extras.vibe ?? 0,
+    crowd: s.crowd,
+    goalsCompleted: statuses.filter((g) => g === "completed").length,
+    goalsTotal: statuses.length,
+    thumbnail: extras.thumbnail,
+  };
 }
 
-export function saveAuto(state: GameStateV1) {
-  localStorage.setItem(AUTO_KEY, JSON.stringify(state));
+export async function saveNamed(name: string, state: GameState, extras?: SaveMetaExtras) {
+  const store = await getSaveBackend();
+  await store.set(SAVE_PREFIX + name, JSON.stringify(state));
+  await store.set(META_PREFIX + name, JSON.stringify(metaFor(name, state, extras)));
 }
-export function loadAuto(): GameStateV1 | null {
-  try {
-    const raw = localStorage.getItem(AUTO_KEY);
-    if (!raw) return null;
-    const s = JSON.parse(raw) as GameStateV1;
-    return s?.v === 1 ? s : null;
-  } catch { return null; }
+
+export async function loadNamed(name: string): Promise<GameState | null> {
+  const store = await getSaveBackend();
+  return parseSave(await store.get(SAVE_PREFIX + name));
+}
+
+export async function deleteNamed(name: string) {
+  const store = await getSaveBackend();
+  await store.delete(SAVE_PREFIX + name);
+  await store.delete(META_PREFIX + name);
+}
+
+async function loadMeta(name: string): Promise<SaveMeta | null> {
+  const store = await getSaveBackend();
+  const raw = await store.get(META_PREFIX + name);
+  if (raw) {
+    try { return { ...JSON.parse(raw), name } as SaveMeta; }
+    catch { /* rebuild below */ }
+  }
+  // Older saves have no metadata: derive what we can from the save itself
+  const s = await loadNamed(name);
+  return s ? metaFor(name, s) : null;
+}
+
+async function copySlot(from: string, to: string) {
+  const store = await getSaveBackend();
+  const raw = await store.get(SAVE_PREFIX + from);
+  if (raw == null) throw new Error(`No save named "${from}".`);
+  const meta = await loadMeta(from);
+  await store.set(SAVE_PREFIX + to, raw);
+  if (meta) await store.set(META_PREFIX + to, JSON.stringify({ ...meta, name: to }));
 }
 
-export function saveNamed(name: string, state: GameStateV1) {
-  const key = SAVE_PREFIX + name;
-  localStorage.setItem(key, JSON.stringify(state));
-  const idx = new Set(readIndex()); idx.add(name); writeIndex([...idx]);
+export async function hasSave(name: string) {
+  const store = await getSaveBackend();
+  return (await store.get(SAVE_PREFIX + name)) != null;
 }
 
-export function loadNamed(name: string): GameStateV1 | null {
-  try {
-    const raw = localStorage.getItem(SAVE_PREFIX + name);
-    if (!raw) return null;
-    const s = JSON.parse(raw) as GameStateV1;
-    return s?.v === 1 ? s : null;
-  } catch { return null; }
+export async function renameSave(from: string, to: string) {
+  if (from === to) return;
+  await copySlot(from, to);
+  await deleteNamed(from);
 }
 
-export function deleteNamed(name: string) {
-  localStorage.removeItem(SAVE_PREFIX + name);
-  writeIndex(readIndex().filter(n => n !== name));
+export async function duplicateSave(from: string, to: string) {
+  await copySlot(from, to);
 }
 
-export function listSaves(): { name: string; ts: number }[] {
-  const out: { name: string; ts: number }[] = [];
-  for (const name of readIndex()) {
-    const s = loadNamed(name);
-    if (s) out.push({ name, ts: s.ts });
+// Newest first; the UI re-sorts as the player chooses
+export async function listSaves(): Promise<SaveMeta[]> {
+  const store = await getSaveBackend();
+  const out: SaveMeta[] = [];
+  for (const key of await store.list(SAVE_PREFIX)) {
+    const meta = await loadMeta(key.slice(SAVE_PREFIX.length));
+    if (meta) out.push(meta);
   }
   out.sort((a, b) => b.ts - a.ts);
   return out;
 }
 
+// ---------------------------------------------------------------
+// Installed mods (catalog files kept next to the saves)
+// ---------------------------------------------------------------
+
+export async function installMod(mod: CatalogFile) {
+  const store = await getSaveBackend();
+  await store.set(MOD_PREFIX + mod.id, JSON.stringify(mod));
+}
+
+export async function uninstallMod(id: string) {
+  const store = await getSaveBackend();
+  await store.delete(MOD_PREFIX + id);
+}
+
+// Mods that fail validation (edited by hand, older format…) are skipped
+export async function loadInstalledMods(): Promise<CatalogFile[]> {
+  const store = await getSaveBackend();
+  const out: CatalogFile[] = [];
+  for (const key of await store.list(MOD_PREFIX)) {
+    const raw = await store.get(key);
+    if (!raw) continue;
+    try {
+      out.push(parseCatalogFile(raw));
+    } catch {
+      /* ignore broken mod */
+    }
+  }
+  return out.sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -0,0 +1,424 @@
+// src/game/transfer.ts
+//
+// Moving layouts between browsers: full saves as portable `.scamp.json`
+// files, and compact share codes (items + wires only) for pasting in chat.
+
+import {
+  CABLE_GAUGES,
+  DEFAULT_WALKWAYS,
+  DEPOT_CAPACITY,
+  GRID_H,
+  GRID_W,
+  ITEM_DEFS,
+  POWER_MODELS,
+  TICKET_PRICE_MAX,
+} from "./constants";
+import { missingCatalogs } from "./catalog";
+import { ACTIVITIES, LEAVE_REASONS, NEEDS, type Agent, type AttendanceDay, type Population } from "./crowd";
+import { isDepot, type FuelOrder } from "./fuel";
+import { TX_KINDS, type DayPnL, type Ledger, type Transaction } from "./ledger";
+import { newId, withStartState } from "./logic";
+import { findCycleWires } from "./powerGraph";
+import { routeCable } from "./routing";
+import { isVendor, stockMax } from "./vendors";
+import { migrateSave, SAVE_VERSION, type GameState } from "./saveSchema";
+import type {
+  CableGauge,
+  ItemKey,
+  NeighbourZone,
+  PlacedItem,
+  Rot,
+  Tile,
+  Walkway,
+  Wire,
+} from "./types";
+
+export const SAVE_FILE_EXT = ".scamp.json";
+const SHARE_PREFIX = "SC1:";
+const ROTS: Rot[] = [0, 90, 180, 270];
+
+// Thrown for anything the player tried to import that we can't accept
+export class SaveImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveImportError";
+  }
+}
+
+const isNum = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+const isUint32 = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 0xffffffff;
+const isTile = (t: unknown): t is Tile => {
+  const p = (t ?? {}) as Partial<Tile>;
+  return Number.isInteger(p.x) && Number.isInteger(p.y) &&
+    p.x! >= 0 && p.y! >= 0 && p.x! < GRID_W && p.y! < GRID_H;
+};
+
+function validateItems(items: unknown): PlacedItem[] {
+  if (!Array.isArray(items)) throw new SaveImportError("items: expected a list.");
+  const seen = new Set<string>();
+  const tiles = new Set<string>();
+  items.forEach((it, i) => {
+    const at = `items[${i}]`;
+    if (!it || typeof it !== "object") throw new SaveImportError(`${at}: expected an object.`);
+    const p = it as Partial<PlacedItem>;
+    if (typeof p.id !== "string" || !p.id) throw new SaveImportError(`${at}.id: missing.`);
+    if (seen.has(p.id)) throw new SaveImportError(`${at}.id: duplicate id "${p.id}".`);
+    seen.add(p.id);
+    if (typeof p.defKey !== "string" || !(p.defKey in ITEM_DEFS)) {
+      throw new SaveImportError(`${at}.defKey: unknown item "${String(p.defKey)}".`);
+    }
+    if (!Number.isInteger(p.x) || !Number.isInteger(p.y) ||
+        p.x! < 0 || p.y! < 0 || p.x! >= GRID_W || p.y! >= GRID_H) {
+      throw new SaveImportError(`${at}: position (${p.x}, ${p.y}) is off the ${GRID_W}×${GRID_H} grid.`);
+    }
+    const tile = `${p.x},${p.y}`;
+    if (tiles.has(tile)) throw new SaveImportError(`${at}: tile ${tile} is already occupied.`);
+    tiles.add(tile);
+    if (!ROTS.includes(p.rot as Rot)) throw new SaveImportError(`${at}.rot: must be 0, 90, 180 or 270.`);
+    if (p.fuel != null && (!isNum(p.fuel) || p.fuel < 0 || p.fuel > 100)) {
+      throw new SaveImportError(`${at}.fuel: must be 0–100.`);
+    }
+    if (p.tripped != null && typeof p.tripped !== "boolean") {
+      throw new SaveImportError(`${at}.tripped: must be true or false.`);
+    }
+    if (p.trippedOver != null && (!isNum(p.trippedOver) || p.trippedOver < 0)) {
+      throw new SaveImportError(`${at}.trippedOver: must be a number ≥ 0.`);
+    }
+    if (p.autoRefuel != null && (!isNum(p.autoRefuel) || p.autoRefuel < 0 || p.autoRefuel > 100)) {
+      throw new SaveImportError(`${at}.autoRefuel: must be 0–100.`);
+    }
+    const maxStock = isVendor(p.defKey) ? stockMax(p.defKey) : DEPOT_CAPACITY;
+    if (p.stock != null && (!isNum(p.stock) || p.stock < 0 || p.stock > maxStock)) {
+      throw new SaveImportError(`${at}.stock: must be 0–${maxStock}.`);
+    }
+    if (p.charge != null && (!isNum(p.charge) || p.charge < 0)) {
+      throw new SaveImportError(`${at}.charge: must be a number ≥ 0.`);
+    }
+  });
+  return items as PlacedItem[];
+}
+
+function validateWires(wires: unknown, items: PlacedItem[]): Wire[] {
+  if (wires == null) return [];
+  if (!Array.isArray(wires)) throw new SaveImportError("wires: expected a list.");
+  const byId = new Map(items.map((i) => [i.id, i]));
+  wires.forEach((w, i) => {
+    const at = `wires[${i}]`;
+    const p = (w ?? {}) as Partial<Wire>;
+    if (typeof p.id !== "string") throw new SaveImportError(`${at}.id: missing.`);
+    const from = byId.get(p.fromId ?? "");
+    const to = byId.get(p.toId ?? "");
+    if (!from) throw new SaveImportError(`${at}.fromId: no such item.`);
+    if (!to) throw new SaveImportError(`${at}.toId: no such item.`);
+    if (!Array.isArray(p.path) || !p.path.every(isTile) || p.path.length < 2) {
+      throw new SaveImportError(`${at}.path: expected a list of tiles.`);
+    }
+    const first = p.path[0];
+    const last = p.path[p.path.length - 1];
+    if (first.x !== from.x || first.y !== from.y || last.x !== to.x || last.y !== to.y) {
+      throw new SaveImportError(`${at}.path: must run from one item to the other.`);
+    }
+    if (p.path.some((t, n) => n > 0 && Math.abs(t.x - p.path![n - 1].x) + Math.abs(t.y - p.path![n - 1].y) !== 1)) {
+      throw new SaveImportError(`${at}.path: tiles must be next to each other.`);
+    }
+    if (p.length !== p.path.length - 1) throw new SaveImportError(`${at}.length: doesn't match the path.`);
+    if (!Array.isArray(p.waypoints) || !p.waypoints.every(isTile)) {
+      throw new SaveImportError(`${at}.waypoints: expected a list of tiles.`);
+    }
+    if (!(p.gauge! in CABLE_GAUGES)) {
+      throw new SaveImportError(`${at}.gauge: one of ${Object.keys(CABLE_GAUGES).join(", ")}.`);
+    }
+  });
+  const loop = findCycleWires(wires as Wire[])[0];
+  if (loop) throw new SaveImportError(`wires: cable "${loop}" closes a loop.`);
+  return wires as Wire[];
+}
+
+const EDGES: NeighbourZone["edge"][] = ["top", "bottom", "left", "right"];
+
+function validateNeighbours(zones: unknown): NeighbourZone[] {
+  if (!Array.isArray(zones)) throw new SaveImportError("neighbours: expected a list.");
+  zones.forEach((z, i) => {
+    const at = `neighbours[${i}]`;
+    const p = (z ?? {}) as Partial<NeighbourZone>;
+    if (typeof p.id !== "string" || typeof p.name !== "string") {
+      throw new SaveImportError(`${at}: id and name are required.`);
+    }
+    if (!EDGES.includes(p.edge!)) throw new SaveImportError(`${at}.edge: top, bottom, left or right.`);
+    if (!Number.isInteger(p.from) || !Number.isInteger(p.to) || p.from! > p.to!) {
+      throw new SaveImportError(`${at}: from/to must be whole numbers with from ≤ to.`);
+    }
+    if (!isNum(p.limitDb)) throw new SaveImportError(`${at}.limitDb: must be a number.`);
+  });
+  return zones as NeighbourZone[];
+}
+
+function validateWalkways(walkways: unknown): Walkway[] {
+  if (!Array.isArray(walkways)) throw new SaveImportError("walkways: expected a list.");
+  walkways.forEach((w, i) => {
+    const at = `walkways[${i}]`;
+    const p = (w ?? {}) as Partial<Walkway>;
+    if (typeof p.id !== "string" || typeof p.name !== "string") {
+      throw new SaveImportError(`${at}: id and name are required.`);
+    }
+    if (![p.x, p.y, p.w, p.h].every(Number.isInteger) || p.w! < 1 || p.h! < 1) {
+      throw new SaveImportError(`${at}: x, y, w and h must be whole numbers (w, h ≥ 1).`);
+    }
+  });
+  return walkways as Walkway[];
+}
+
+function validateFuelOrders(orders: unknown, items: PlacedItem[]): FuelOrder[] {
+  if (!Array.isArray(orders)) throw new SaveImportError("fuelOrders: expected a list.");
+  orders.forEach((o, i) => {
+    const at = `fuelOrders[${i}]`;
+    const p = (o ?? {}) as Partial<FuelOrder>;
+    if (typeof p.id !== "string") throw new SaveImportError(`${at}.id: missing.`);
+    const depot = items.find((it) => it.id === p.depotId);
+    if (!depot || !isDepot(depot.defKey)) {
+      throw new SaveImportError(`${at}.depotId: not a fuel depot in the layout.`);
+    }
+    if (!isNum(p.amount) || p.amount <= 0) throw new SaveImportError(`${at}.amount: must be > 0.`);
+    if (!Number.isInteger(p.arriveDay) || !Number.isInteger(p.arriveMin) ||
+        p.arriveMin! < 0 || p.arriveMin! >= 24 * 60) {
+      throw new SaveImportError(`${at}: arrival must be a whole day and minute (0–1439).`);
+    }
+  });
+  return orders as FuelOrder[];
+}
+
+function validateLedger(ledger: unknown): Ledger {
+  const l = (ledger ?? {}) as Partial<Ledger>;
+  if (!Array.isArray(l.transactions) || !Array.isArray(l.days)) {
+    throw new SaveImportError("ledger: expected transactions and days.");
+  }
+  l.transactions.forEach((raw, i) => {
+    const at = `ledger.transactions[${i}]`;
+    const t = (raw ?? {}) as Partial<Transaction>;
+    if (!TX_KINDS.includes(t.kind!)) throw new SaveImportError(`${at}.kind: one of ${TX_KINDS.join(", ")}.`);
+    if (!isNum(t.amount)) throw new SaveImportError(`${at}.amount: must be a number.`);
+    if (!Number.isInteger(t.dayNum) || t.dayNum! < 1 || !isNum(t.timeMin) || t.timeMin < 0 || t.timeMin >= 24 * 60) {
+      throw new SaveImportError(`${at}: dayNum must be ≥ 1 and timeMin 0–1439.`);
+    }
+  });
+  l.days.forEach((raw, i) => {
+    const at = `ledger.days[${i}]`;
+    const d = (raw ?? {}) as Partial<DayPnL>;
+    if (!Number.isInteger(d.day) || d.day! < 1) throw new SaveImportError(`${at}.day: must be ≥ 1.`);
+    if (!isNum(d.opening) || TX_KINDS.some((k) => !isNum(d.totals?.[k]))) {
+      throw new SaveImportError(`${at}: expected an opening balance and a total for each kind.`);
+    }
+  });
+  return l as Ledger;
+}
+
+function validatePopulation(pop: unknown): Population {
+  const p = (pop ?? {}) as Partial<Population>;
+  if (!Array.isArray(p.agents)) throw new SaveImportError("population.agents: expected a list.");
+  if (!Number.isInteger(p.nextId) || p.nextId! < 1) {
+    throw new SaveImportError("population.nextId: must be a whole number ≥ 1.");
+  }
+  if (!Number.isInteger(p.rng)) throw new SaveImportError("population.rng: must be a whole number.");
+  if (!Array.isArray(p.congestion) || p.congestion.length !== GRID_W * GRID_H ||
+      p.congestion.some((c) => !isNum(c) || c < 0)) {
+    throw new SaveImportError(`population.congestion: expected ${GRID_W * GRID_H} numbers ≥ 0.`);
+  }
+  const doings = [...ACTIVITIES, null];
+  p.agents.forEach((raw, i) => {
+    const at = `population.agents[${i}]`;
+    const a = (raw ?? {}) as Partial<Agent>;
+    if (!Number.isInteger(a.id)) throw new SaveImportError(`${at}.id: must be a whole number.`);
+    if (!isNum(a.x) || !isNum(a.y) || a.x < 0 || a.y < 0 || a.x > GRID_W || a.y > GRID_H) {
+      throw new SaveImportError(`${at}: position is off the ${GRID_W}×${GRID_H} grid.`);
+    }
+    if (!a.needs || NEEDS.some((n) => !isNum(a.needs![n]) || a.needs![n] < 0 || a.needs![n] > 1)) {
+      throw new SaveImportError(`${at}.needs: expected ${NEEDS.join(", ")} between 0 and 1.`);
+    }
+    if (!doings.includes(a.doing ?? null)) throw new SaveImportError(`${at}.doing: unknown activity.`);
+    if (a.target != null && !isTile(a.target)) throw new SaveImportError(`${at}.target: not a grid tile.`);
+    if (a.itemId != null && typeof a.itemId !== "string") {
+      throw new SaveImportError(`${at}.itemId: must be an item id.`);
+    }
+    if (!isNum(a.thinkAt) || !isNum(a.misery) || !isNum(a.leaveAt)) {
+      throw new SaveImportError(`${at}: thinkAt, misery and leaveAt must be numbers.`);
+    }
+    if (a.leaving != null && !LEAVE_REASONS.includes(a.leaving)) {
+      throw new SaveImportError(`${at}.leaving: unknown reason.`);
+    }
+  });
+  if (!Array.isArray(p.funnel)) throw new SaveImportError("population.funnel: expected a list.");
+  p.funnel.forEach((raw, i) => {
+    const at = `population.funnel[${i}]`;
+    const d = (raw ?? {}) as Partial<AttendanceDay>;
+    if (!Number.isInteger(d.day) || d.day! < 1) throw new SaveImportError(`${at}.day: must be ≥ 1.`);
+    const counts = [d.arrived, d.entered, d.turnedAway, d.revenue, ...LEAVE_REASONS.map((r) => d.left?.[r])];
+    if (counts.some((c) => !isNum(c) || c < 0)) {
+      throw new SaveImportError(`${at}: arrived, entered, turnedAway, revenue and left counts must be ≥ 0.`);
+    }
+  });
+  return p as Population;
+}
+
+/** Migrate + validate an untrusted save object. Throws SaveImportError. */
+export function validateSave(raw: unknown): GameState {
+  if (!raw || typeof raw !== "object") throw new SaveImportError("Not a Sound Camp save.");
+  const v = (raw as { v?: unknown }).v;
+  if (typeof v !== "number") throw new SaveImportError("Not a Sound Camp save (no version).");
+  if (v > SAVE_VERSION) {
+    throw new SaveImportError(`Save is format v${v}; this build reads up to v${SAVE_VERSION}.`);
+  }
+  const s = migrateSave(raw);
+  if (!s) throw new SaveImportError(`Unsupported save format v${v}.`);
+
+  if (!isNum(s.money) || s.money < 0) throw new SaveImportError("money: must be a number ≥ 0.");
+  if (!Number.isInteger(s.dayNum) || s.dayNum < 1) throw new SaveImportError("dayNum: must be ≥ 1.");
+  if (!isNum(s.timeMin) || s.timeMin < 0 || s.timeMin >= 24 * 60) {
+    throw new SaveImportError("timeMin: must be 0–1439.");
+  }
+  if (!Number.isInteger(s.tick) || s.tick < 0) throw new SaveImportError("tick: must be a whole number ≥ 0.");
+  if (!isUint32(s.seed)) throw new SaveImportError("seed: must be a whole number 0–4294967295.");
+  const streams = s.rngStreams as unknown;
+  if (!streams || typeof streams !== "object" || Array.isArray(streams)) {
+    throw new SaveImportError("rngStreams: expected an object.");
+  }
+  for (const [name, pos] of Object.entries(streams)) {
+    if (!isUint32(pos)) throw new SaveImportError(`rngStreams: "${name}" must be a whole number 0–4294967295.`);
+  }
+  if (!isNum(s.crowd) || s.crowd < 0) throw new SaveImportError("crowd: must be ≥ 0.");
+  if (!s.goals || typeof s.goals !== "object") throw new SaveImportError("goals: expected an object.");
+  if (typeof s.catalog !== "string") throw new SaveImportError("catalog: missing.");
+  const needs = missingCatalogs(s.catalog);
+  if (needs.length && s.items.some((it) => !(it?.defKey in ITEM_DEFS))) {
+    throw new SaveImportError(`This save needs mods that aren't installed: ${needs.join(", ")}.`);
+  }
+  const items = validateItems(s.items);
+  validateWires(s.wires, items);
+  validateNeighbours(s.neighbours);
+  validateWalkways(s.walkways);
+  validateFuelOrders(s.fuelOrders, items);
+  validatePopulation(s.population);
+  const c = s.complaints;
+  if (!c || !isNum(c.pressure) || !Number.isInteger(c.stage) || !Array.isArray(c.incidents)) {
+    throw new SaveImportError("complaints: expected pressure, stage and incidents.");
+  }
+  if (!POWER_MODELS.includes(s.powerModel)) {
+    throw new SaveImportError(`powerModel: one of ${POWER_MODELS.join(", ")}.`);
+  }
+  if (!isNum(s.ticketPrice) || s.ticketPrice < 0 || s.ticketPrice > TICKET_PRICE_MAX) {
+    throw new SaveImportError(`ticketPrice: must be $0–${TICKET_PRICE_MAX}.`);
+  }
+  validateLedger(s.ledger);
+  return s;
+}
+
+// ---------------------------------------------------------------
+// Save files
+// ---------------------------------------------------------------
+
+export function saveFileName(name: string) {
+  const safe = name.trim().replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "");
+  return (safe || "sound-camp") + SAVE_FILE_EXT;
+}
+
+export function parseSaveFile(text: string): GameState {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SaveImportError("File is not valid JSON.");
+  }
+  return validateSave(raw);
+}
+
+// ---------------------------------------------------------------
+// Share codes: items + wires only, deflated and base64url-encoded
+// ---------------------------------------------------------------
+
+type SharePayload = {
+  k: string[];                              // item keys used, indexed below
+  i: [number, number, number, number][];    // [keyIdx, x, y, rotIdx]
+  w: number[][];                            // [fromItemIdx, toItemIdx, ...waypoint x,y pairs]
+  g?: number[];                             // indices into w of thick cables
+};
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const out = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+export async function encodeShareCode(items: PlacedItem[], wires: Wire[]): Promise<string> {
+  const keys = [...new Set(items.map((i) => i.defKey))];
+  const index = new Map(items.map((it, n) => [it.id, n]));
+  const linked = wires.filter((w) => index.has(w.fromId) && index.has(w.toId));
+  const payload: SharePayload = {
+    k: keys,
+    i: items.map((it) => [keys.indexOf(it.defKey), it.x, it.y, ROTS.indexOf(it.rot)]),
+    w: linked.map((w) => [
+        index.get(w.fromId)!,
+        index.get(w.toId)!,
+        ...w.waypoints.flatMap((p) => [p.x, p.y]),
+      ]),
+    g: linked.flatMap((w, n) => (w.gauge === "thick" ? [n] : [])),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return SHARE_PREFIX + toBase64Url(await pipeBytes(json, new CompressionStream("deflate-raw")));
+}
+
+/**
+ * Decode a share code into a fresh layout (new ids, generators off + full).
+ * Cables are re-routed against `walkways`.
+ */
+export async function decodeShareCode(
+  code: string,
+  walkways: Walkway[] = DEFAULT_WALKWAYS
+): Promise<{ items: PlacedItem[]; wires: Wire[] }> {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(SHARE_PREFIX)) {
+    throw new SaveImportError(`Share codes start with "${SHARE_PREFIX}".`);
+  }
+  let payload: SharePayload;
+  try {
+    const bytes = await pipeBytes(
+      fromBase64Url(trimmed.slice(SHARE_PREFIX.length)),
+      new DecompressionStream("deflate-raw")
+    );
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new SaveImportError("Share code is damaged or incomplete.");
+  }
+  if (!Array.isArray(payload?.k) || !Array.isArray(payload.i) || !Array.isArray(payload.w)) {
+    throw new SaveImportError("Share code is damaged or incomplete.");
+  }
+
+  const items: PlacedItem[] = payload.i.map(([k, x, y, r]) => {
+    const defKey = payload.k[k] as ItemKey;
+    return withStartState({ id: newId(), defKey, x, y, rot: ROTS[r] ?? 0 });
+  });
+  validateItems(items);
+
+  const wires: Wire[] = payload.w.map(([a, b, ...xy], n) => {
+    const from = items[a];
+    const to = items[b];
+    if (!from || !to) throw new SaveImportError(`Share code wire ${n + 1} points at a missing item.`);
+    const waypoints: Tile[] = [];
+    for (let k = 0; k + 1 < xy.length; k += 2) waypoints.push({ x: xy[k], y: xy[k + 1] });
+    const path = routeCable(items, walkways, from, to, waypoints);
+    if (!path) throw new SaveImportError(`Share code wire ${n + 1} can't be routed.`);
+    const gauge: CableGauge = payload.g?.includes(n) ? "thick" : "thin";
+    return { id: newId(), fromId: from.id, toId: to.id, length: path.length - 1, path, waypoints, gauge };
+  });
+  validateWires(wires, items);
+  return { items, wires };
+}
@@ -1,7 +1,16 @@
 // src/game/types.ts
 export type Rot = 0 | 90 | 180 | 270;
 
-export type ItemKey = "speaker_s" | "speaker_l" | "deck" | "light" | "tent" | "genny";
+// Catalog key, e.g. "speaker_s" — mods can add their own (see catalog.ts)
+export type ItemKey = string;
+
+export type DrawShape = "speaker" | "deck" | "light" | "tent" | "generator" | "distro" | "tank" | "solar" | "battery" | "gate" | "stall" | "box";
+
+export interface DrawStyle {
+  shape: DrawShape;
+  fill?: string;    // body colour (default white)
+  accent?: string;  // detail colour
+}
 
 export interface ItemDef {
   key: ItemKey;
@@ -9,9 +18,17 @@ export interface ItemDef {
   cost: number;
   baseVibe: number;
   noise: number;
-  power: number;    // consumption; genny uses 0 and instead supplies power
+  power: number;    // consumption; generators use 0 and instead supply power
   range?: number;   // generic radius for effects (tiles)
-  coneDeg?: number; // for speakers (visual only in this MVP)
+  coneDeg?: number; // directional items: width of the sound cone (see cone.ts)
+  capacity?: number; // power sources: units supplied (default GEN_CAPACITY); batteries: max charge/discharge rate;
+                     // amenities (tents, toilets, …): crowd agents served at once; vendors: queue length
+  storage?: number;  // batteries: energy held, in power units × in-game hours
+  price?: number;       // vendors: $ per person per sale
+  serviceRate?: number; // vendors: groups served per in-game hour
+  stock?: number;       // vendors: sales a full restock holds
+  tags: string[];   // categories used by scoring, goals and power ("speaker", "generator", …)
+  draw: DrawStyle;
 }
 
 export interface PlacedItem {
@@ -22,6 +39,11 @@ export interface PlacedItem {
   rot: Rot;
   on?: boolean;   // for generators: running or not
   fuel?: number;  // (reserved) 0–100
+  tripped?: boolean;    // generators: breaker tripped on overload, off until reset
+  trippedOver?: number; // how far over capacity its network was when it tripped
+  autoRefuel?: number;  // generators: top up from the depots below this % fuel
+  stock?: number;       // fuel depots: units in the tank; vendors: sales left
+  charge?: number;      // batteries: stored energy (0..def.storage)
 }
 
 export interface Score {
@@ -29,9 +51,66 @@ export interface Score {
   noise: number;
 }
 
+// How generators reach consumers: cables only, anything in range, or both
+export type PowerModel = "wired" | "radius" | "hybrid";
+
+export type CableGauge = "thin" | "thick";
+
+export interface Tile {
+  x: number;
+  y: number;
+}
+
+// A cable between two power nodes (generator, distribution box or device).
+// Cables are undirected; power flows out from whichever end has a generator.
 export interface Wire {
   id: string;
-  fromGenId: string;  // generator item id
-  toItemId: string;   // consumer item id
-  length: number;     // Manhattan distance in tiles
+  fromId: string;
+  toId: string;
+  length: number;     // tiles along `path`
+  path: Tile[];       // routed tiles, from's tile to to's tile inclusive
+  waypoints: Tile[];  // tiles the player dragged the route through
+  gauge: CableGauge;
+}
+
+// Declarative synergy/penalty: every item tagged `target` is affected by
+// items tagged `source` within `radius` tiles (see rules.ts)
+export interface SynergyRule {
+  id: string;
+  label: string;            // shown in the inspector breakdown
+  source: string;           // tag of the item causing the effect
+  target: string;           // tag of the item receiving it
+  radius: number;           // tiles (Euclidean, centre to centre)
+  stat?: "vibe" | "noise";  // default "vibe"
+  op: "add" | "mul";        // add `value`, or multiply the item's base by `value`
+  value: number;
+  stack: "once" | "each";   // once if any source is in range, or once per source
+  maxStacks?: number;       // cap for "each"
+  cone?: "source" | "target"; // only count pairs inside that item's cone
 }
+
+// A stretch of the site edge with neighbours who can hear the camp
+export interface NeighbourZone {
+  id: string;
+  name: string;
+  edge: "top" | "bottom" | "left" | "right";
+  from: number;    // first tile along the edge (x for top/bottom, y for left/right)
+  to: number;      // last tile, inclusive
+  limitDb: number; // above this they start complaining
+}
+
+// Paved foot traffic route; cables crossing it are trip hazards
+export interface Walkway {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  w: number; // tiles
+  h: number;
+}
+
+// What a crowd agent can want (crowd.ts)
+export type Need = "dance" | "rest" | "toilet" | "drink" | "food" | "sleep";
+
+// Parts of the day the crowd's needs follow: daytime, the evening party, sleep
+export type DayPhase = "day" | "party" | "night";
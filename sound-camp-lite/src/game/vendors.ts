@@ -0,0 +1,48 @@
+// src/game/vendors.ts
+//
+// Vendors: "vendor"-tagged items sell to the crowd. A bar meets the drink
+// need and a food truck the food need (by their need tags, like any amenity);
+// a "merch" stand sells to groups with nothing better to do. Each vendor
+// serves one group at a time at its service rate while the rest queue
+// (crowd.ts runs the queue). Every sale takes one unit of stock, earns
+// `price` for each person in the group and is booked in the ledger. Once it's
+// sold out the stall shuts until the player restocks it at wholesale.
+
+import { ITEM_DEFS, PEOPLE_PER_AGENT, VENDOR_WHOLESALE } from "./constants";
+import { hasTag } from "./catalog";
+import type { ItemKey, PlacedItem } from "./types";
+
+export interface Sale {
+  itemId: string;
+  defKey: ItemKey;
+  amount: number;  // $ taken
+}
+
+export const isVendor = (key: ItemKey) => hasTag(key, "vendor");
+export const sellsMerch = (key: ItemKey) => isVendor(key) && hasTag(key, "merch");
+
+export const stockMax = (key: ItemKey) => ITEM_DEFS[key]?.stock ?? 0;
+
+// What one group pays for one sale
+export const salePrice = (key: ItemKey) => (ITEM_DEFS[key]?.price ?? 0) * PEOPLE_PER_AGENT;
+
+/** Open for business: stocked, and powered if it draws power. */
+export function vendorOpen(it: PlacedItem, powerMap: boolean[][]): boolean {
+  const def = ITEM_DEFS[it.defKey];
+  if (!def || !isVendor(it.defKey) || (it.stock ?? 0) < 1) return false;
+  return def.power <= 0 || !!powerMap[it.y]?.[it.x];
+}
+
+/** $ to fill a vendor back up to a full stock. */
+export const restockCost = (it: PlacedItem) =>
+  Math.round((stockMax(it.defKey) - (it.stock ?? 0)) * salePrice(it.defKey) * VENDOR_WHOLESALE * 100) / 100;
+
+/** Take one unit of stock per sale. */
+export function takeStock(items: PlacedItem[], sales: Sale[]): PlacedItem[] {
+  if (!sales.length) return items;
+  const sold = new Map<string, number>();
+  for (const s of sales) sold.set(s.itemId, (sold.get(s.itemId) ?? 0) + 1);
+  return items.map((i) =>
+    sold.has(i.id) ? { ...i, stock: Math.max(0, (i.stock ?? 0) - sold.get(i.id)!) } : i
+  );
+}
@@ -0,0 +1,95 @@
+import { TICKET_PRICE_MAX } from "../game/constants";
+import {
+  fairPrice,
+  LEAVE_REASONS,
+  ticketDemand,
+  type AttendanceDay,
+  type LeaveReason,
+} from "../game/crowd";
+import { styles } from "./styles";
+
+const REASON_LABEL: Record<LeaveReason, string> = {
+  dance: "Nowhere to dance",
+  rest: "Nowhere to rest",
+  toilet: "No toilet",
+  drink: "Nothing to drink",
+  food: "Nothing to eat",
+  sleep: "Nowhere to sleep",
+  done: "Visit over",
+};
+
+const pct = (n: number, of: number) => (of > 0 ? ` (${Math.round((n / of) * 100)}%)` : "");
+
+// Ticket price and the funnel at the gates: who turned up, who paid, who
+// went home and why — today next to yesterday
+export function AttendancePanel({
+  funnel,
+  ticketPrice,
+  vibe,
+  gates,
+  disabled,
+  onPriceChange,
+}: {
+  funnel: AttendanceDay[];
+  ticketPrice: number;
+  vibe: number;
+  gates: number;
+  disabled?: boolean;
+  onPriceChange: (price: number) => void;
+}) {
+  const days = funnel.slice(-2).reverse();
+  const demand = ticketDemand(ticketPrice, vibe);
+  const rows: [string, (d: AttendanceDay) => string][] = [
+    ["Turned up", (d) => `${d.arrived}`],
+    ["Bought in", (d) => `${d.entered}${pct(d.entered, d.arrived)}`],
+    ["Put off by price", (d) => `${d.turnedAway}`],
+    ...LEAVE_REASONS.filter((r) => days.some((d) => d.left[r] > 0)).map(
+      (r): [string, (d: AttendanceDay) => string] => [`Left: ${REASON_LABEL[r]}`, (d) => `${d.left[r]}`]
+    ),
+    ["Ticket sales", (d) => `$${Math.round(d.revenue)}`],
+  ];
+
+  return (
+    <div style={{ ...styles.card, marginBottom: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Gates</div>
+      {gates === 0 && (
+        <div style={{ fontSize: 13, color: "#ff6b6b", marginBottom: 6 }}>
+          No entrance gate — nobody new can get in.
+        </div>
+      )}
+      <label style={{ ...styles.row, alignItems: "center", fontSize: 13 }}>
+        <span>Ticket</span>
+        <input
+          type="range"
+          min={0}
+          max={TICKET_PRICE_MAX}
+          step={0.05}
+          value={ticketPrice}
+          disabled={disabled}
+          onChange={(e) => onPriceChange(Number(e.target.value))}
+          style={{ flex: 1, margin: "0 8px" }}
+        />
+        <b>${ticketPrice.toFixed(2)}</b>
+      </label>
+      <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 6 }}>
+        Fair price at this vibe ${fairPrice(vibe).toFixed(2)} · {Math.round(demand * 100)}% would pay
+      </div>
+      {days.length === 0 ? (
+        <div style={{ fontSize: 13, opacity: 0.7 }}>Nobody's come yet.</div>
+      ) : (
+        <>
+          <div style={{ ...styles.row, fontSize: 12, opacity: 0.7 }}>
+            <span />
+            <span>{days.map((d) => `Day ${d.day}`).join(" · ")}</span>
+          </div>
+          {rows.map(([label, value]) => (
+            <div key={label} style={{ ...styles.row, fontSize: 13 }}>
+              <span>{label}</span>
+              <b>{days.map(value).join(" · ")}</b>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { PEOPLE_PER_AGENT, SATISFIED_BELOW } from "../game/constants";
+import {
+  atTarget,
+  dayPhase,
+  isSatisfied,
+  NEEDS,
+  servesNeed,
+  worstNeed,
+  type Population,
+} from "../game/crowd";
+import type { DayPhase, Need, PlacedItem } from "../game/types";
+import { styles } from "./styles";
+
+const PHASE_LABEL: Record<DayPhase, string> = {
+  day: "☀️ Daytime",
+  party: "🎉 Party time",
+  night: "🌙 Sleeping",
+};
+
+const NEED_LABEL: Record<Need, string> = {
+  dance: "Dance",
+  rest: "Rest",
+  toilet: "Toilet",
+  drink: "Drink",
+  food: "Food",
+  sleep: "Sleep",
+};
+
+// Who's on site, what they're up to, and which needs nobody is meeting
+export function CrowdPanel({
+  population,
+  items,
+  powerMap,
+  timeMin,
+}: {
+  population: Population;
+  items: PlacedItem[];
+  powerMap: boolean[][];
+  timeMin: number;
+}) {
+  const here = population.agents.filter((a) => !a.leaving);
+  const happy = here.filter(isSatisfied).length;
+  const doing = (n: Need) => here.filter((a) => a.doing === n && atTarget(a)).length;
+  const unmet = (n: Need) => here.filter((a) => worstNeed(a) === n && a.needs[n] >= SATISFIED_BELOW).length;
+
+  return (
+    <div style={{ ...styles.card, marginBottom: 12 }}>
+      <div style={{ display: "flex", fontWeight: 700, marginBottom: 6 }}>
+        Crowd
+        <span style={{ marginLeft: "auto", fontWeight: 400, fontSize: 13 }}>
+          {PHASE_LABEL[dayPhase(timeMin)]}
+        </span>
+      </div>
+      <div style={{ ...styles.row, fontSize: 13 }}>
+        <span>Happy / on site</span>
+        <b>
+          {happy * PEOPLE_PER_AGENT} / {here.length * PEOPLE_PER_AGENT}
+        </b>
+      </div>
+      {NEEDS.map((n) => {
+        const stuck = unmet(n);
+        const nowhere = !items.some((it) => servesNeed(it, n, powerMap));
+        return (
+          <div key={n} style={{ ...styles.row, fontSize: 13 }}>
+            <span>{NEED_LABEL[n]}</span>
+            <span>
+              {doing(n) * PEOPLE_PER_AGENT} now
+              {stuck > 0 && (
+                <b style={{ color: "#ff6b6b" }}>
+                  {" "}· {stuck * PEOPLE_PER_AGENT} desperate{nowhere ? " — nowhere to go" : ""}
+                </b>
+              )}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
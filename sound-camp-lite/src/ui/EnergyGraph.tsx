@@ -0,0 +1,65 @@
+import { styles } from "./styles";
+
+// One reading of a power source, taken every half in-game hour
+export interface EnergySample {
+  slot: number;     // half-hours since the start of day 1
+  out: number;      // power supplied (including what it sends into batteries)
+  cap: number;      // what it could supply at the time
+  charge?: number;  // batteries: stored energy
+  charging?: number; // batteries: power flowing in
+}
+
+const W = 260;
+const H = 70;
+
+// Energy flow for one source over the last day: supplied vs available, and a
+// battery's charge level
+export function EnergyGraph({
+  samples,
+  rated,
+  storage,
+}: {
+  samples: EnergySample[];
+  rated: number;
+  storage?: number;
+}) {
+  if (samples.length < 2) {
+    return (
+      <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>
+        Energy flow shows up once the clock has run for a while.
+      </div>
+    );
+  }
+  const first = samples[0].slot;
+  const span = Math.max(1, samples[samples.length - 1].slot - first);
+  const x = (s: EnergySample) => ((s.slot - first) / span) * W;
+  const y = (v: number, max: number) => H - (Math.min(v, max) / Math.max(max, 1e-6)) * (H - 4);
+  const line = (pick: (s: EnergySample) => number, max: number) =>
+    samples.map((s, i) => `${i ? "L" : "M"}${x(s).toFixed(1)},${y(pick(s), max).toFixed(1)}`).join("");
+  const area = `${line((s) => s.out, rated)}L${W},${H}L0,${H}Z`;
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ ...styles.row, fontSize: 12 }}>
+        <span>Energy flow (last {Math.round(span / 2)}h)</span>
+        <span style={{ opacity: 0.8 }}>
+          <span style={{ color: "#37d6cd" }}>■</span> supplied{" "}
+          <span style={{ color: "#8aa3ff" }}>┄</span> available
+          {storage ? (
+            <>
+              {" "}
+              <span style={{ color: "#ffd166" }}>━</span> charge
+            </>
+          ) : null}
+        </span>
+      </div>
+      <svg width={W} height={H} style={{ background: "rgba(255,255,255,0.04)", borderRadius: 4 }}>
+        <path d={area} fill="rgba(55,214,205,0.35)" stroke="#37d6cd" strokeWidth={1} />
+        <path d={line((s) => s.cap, rated)} fill="none" stroke="#8aa3ff" strokeDasharray="4 3" />
+        {storage ? (
+          <path d={line((s) => s.charge ?? 0, storage)} fill="none" stroke="#ffd166" strokeWidth={2} />
+        ) : null}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import {
+  dayClosing,
+  dayIncome,
+  dayNet,
+  daySpend,
+  TX_KINDS,
+  TX_LABEL,
+  type DayPnL,
+  type Ledger,
+} from "../game/ledger";
+import { styles } from "./styles";
+
+const W = 260;
+const H = 80;
+const CHART_DAYS = 14;
+
+const usd = (n: number) => `${n < 0 ? "−" : n > 0 ? "+" : ""}$${Math.abs(n).toFixed(2)}`;
+
+// Where the money went: today's P&L next to yesterday's by kind, a chart of
+// daily income, spend and closing balance, and the books as CSV
+export function FinancePanel({
+  ledger,
+  onExportPnl,
+  onExportTransactions,
+}: {
+  ledger: Ledger;
+  onExportPnl: () => void;
+  onExportTransactions: () => void;
+}) {
+  const days = ledger.days.slice(-2).reverse();
+  const kinds = TX_KINDS.filter((k) => days.some((d) => d.totals[k] !== 0));
+
+  return (
+    <div style={{ ...styles.card, marginBottom: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Finances</div>
+      {days.length === 0 ? (
+        <div style={{ fontSize: 13, opacity: 0.7 }}>The books open when the clock starts.</div>
+      ) : (
+        <>
+          <div style={{ ...styles.row, fontSize: 12, opacity: 0.7 }}>
+            <span />
+            <span>{days.map((d) => `Day ${d.day}`).join(" · ")}</span>
+          </div>
+          {kinds.map((k) => (
+            <div key={k} style={{ ...styles.row, fontSize: 13 }}>
+              <span>{TX_LABEL[k]}</span>
+              <b>{days.map((d) => usd(d.totals[k])).join(" · ")}</b>
+            </div>
+          ))}
+          <div style={{ ...styles.row, fontSize: 13, borderTop: "1px solid rgba(255,255,255,0.15)", marginTop: 2 }}>
+            <span>Net</span>
+            <b>{days.map((d) => usd(dayNet(d))).join(" · ")}</b>
+          </div>
+          <PnlChart days={ledger.days.slice(-CHART_DAYS)} />
+        </>
+      )}
+      <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+        <button type="button" style={styles.smallBtn} disabled={!ledger.days.length} onClick={onExportPnl}>
+          Daily P&amp;L CSV
+        </button>
+        <button
+          type="button"
+          style={styles.smallBtn}
+          disabled={!ledger.transactions.length}
+          onClick={onExportTransactions}
+          title="Every transaction from today and yesterday"
+        >
+          Transactions CSV
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Income above the line and spend below it for each day, with the closing
+// balance drawn over the top
+function PnlChart({ days }: { days: DayPnL[] }) {
+  const flow = Math.max(1, ...days.map((d) => Math.max(dayIncome(d), -daySpend(d))));
+  const cash = Math.max(1, ...days.map(dayClosing));
+  const slot = W / days.length;
+  const mid = H / 2;
+  const bar = (v: number) => (v / flow) * (mid - 2);
+  const balance = days
+    .map((d, i) => `${i ? "L" : "M"}${((i + 0.5) * slot).toFixed(1)},${(H - (Math.max(0, dayClosing(d)) / cash) * (H - 4)).toFixed(1)}`)
+    .join("");
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ ...styles.row, fontSize: 12 }}>
+        <span>Last {days.length} day{days.length === 1 ? "" : "s"}</span>
+        <span style={{ opacity: 0.8 }}>
+          <span style={{ color: "#37d6cd" }}>■</span> in{" "}
+          <span style={{ color: "#ff6b6b" }}>■</span> out{" "}
+          <span style={{ color: "#ffd166" }}>━</span> balance
+        </span>
+      </div>
+      <svg width={W} height={H} style={{ background: "rgba(255,255,255,0.04)", borderRadius: 4 }}>
+        <line x1={0} x2={W} y1={mid} y2={mid} stroke="rgba(255,255,255,0.2)" />
+        {days.map((d, i) => {
+          const x = i * slot + slot * 0.15;
+          const w = slot * 0.7;
+          const up = bar(dayIncome(d));
+          const down = bar(-daySpend(d));
+          return (
+            <g key={d.day}>
+              <title>{`Day ${d.day}: in ${usd(dayIncome(d))}, out ${usd(daySpend(d))}, closing $${dayClosing(d).toFixed(2)}`}</title>
+              <rect x={x} y={mid - up} width={w} height={up} fill="rgba(55,214,205,0.6)" />
+              <rect x={x} y={mid} width={w} height={down} fill="rgba(255,107,107,0.6)" />
+            </g>
+          );
+        })}
+        {days.length > 1 && <path d={balance} fill="none" stroke="#ffd166" strokeWidth={2} />}
+      </svg>
+    </div>
+  );
+}
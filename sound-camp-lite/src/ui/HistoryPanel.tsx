@@ -0,0 +1,76 @@
+import type { History } from "../game/history";
+import { fmtClock } from "./format";
+import { styles } from "./styles";
+import { GAME_MINUTES_PER_SEC } from "../game/constants";
+import { SIM_DT } from "../game/sim";
+
+// Undo/redo list: click any step to jump straight to it
+export function HistoryPanel({
+  history,
+  onJump,
+}: {
+  history: History;
+  onJump: (cursor: number) => void;
+}) {
+  const rows = [
+    { label: "Start", tick: null as number | null, cursor: 0 },
+    ...history.entries.map((e, i) => ({ label: e.label, tick: e.tick, cursor: i + 1 })),
+  ];
+  const undone = (cursor: number) => cursor > history.cursor;
+
+  return (
+    <div style={styles.card}>
+      <div style={{ display: "flex", alignItems: "center", marginBottom: 6 }}>
+        <div style={{ fontWeight: 700 }}>History</div>
+        <div style={{ marginLeft: "auto", display: "flex", gap: 6 }}>
+          <button
+            type="button"
+            style={styles.smallBtn}
+            disabled={history.cursor === 0}
+            onClick={() => onJump(history.cursor - 1)}
+            title="Undo (Ctrl+Z)"
+          >
+            ↶
+          </button>
+          <button
+            type="button"
+            style={styles.smallBtn}
+            disabled={history.cursor >= history.entries.length}
+            onClick={() => onJump(history.cursor + 1)}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷
+          </button>
+        </div>
+      </div>
+      <div style={{ display: "grid", gap: 2, maxHeight: 220, overflow: "auto" }}>
+        {rows
+          .slice()
+          .reverse()
+          .map((r) => (
+            <button
+              key={r.cursor}
+              type="button"
+              onClick={() => onJump(r.cursor)}
+              style={{
+                ...styles.smallBtn,
+                textAlign: "left",
+                padding: "3px 8px",
+                fontSize: 12,
+                opacity: undone(r.cursor) ? 0.45 : 1,
+                borderColor: r.cursor === history.cursor ? "#37d6cd" : "#394184",
+                textDecoration: undone(r.cursor) ? "line-through" : "none",
+              }}
+            >
+              {r.label}
+              {r.tick != null && (
+                <span style={{ float: "right", opacity: 0.7 }}>
+                  {fmtClock(r.tick * SIM_DT * GAME_MINUTES_PER_SEC)}
+                </span>
+              )}
+            </button>
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { COMPLAINT_LADDER, NIGHT_END_MIN, NIGHT_START_MIN } from "../game/constants";
+import type { ComplaintState } from "../game/complaints";
+import { fmtClock } from "./format";
+import { styles } from "./styles";
+
+// Complaint pressure gauge + the log of warnings, fines and curfews
+export function IncidentLog({ complaints }: { complaints: ComplaintState }) {
+  const top = COMPLAINT_LADDER[COMPLAINT_LADDER.length - 1].at;
+  const pct = Math.min(100, (complaints.pressure / top) * 100);
+  const next = COMPLAINT_LADDER[complaints.stage];
+
+  return (
+    <div style={{ ...styles.card, marginBottom: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Complaints</div>
+      <div
+        style={{ height: 6, background: "#0f113b", borderRadius: 3, overflow: "hidden" }}
+        title={`Pressure ${Math.round(complaints.pressure)} / ${top}`}
+      >
+        <div
+          style={{
+            width: `${pct}%`,
+            height: "100%",
+            background: pct >= 75 ? "#ff6b6b" : pct >= 25 ? "#ffd166" : "#37d6cd",
+          }}
+        />
+      </div>
+      <div style={{ fontSize: 12, opacity: 0.8, margin: "4px 0 6px" }}>
+        {complaints.curfew
+          ? `Curfew until ${fmtClock(NIGHT_END_MIN)} — speakers limited.`
+          : !complaints.night
+          ? `Quiet hours ${fmtClock(NIGHT_START_MIN)}–${fmtClock(NIGHT_END_MIN)}.`
+          : next
+          ? `Quiet hours — next: ${next.kind}${next.fine ? ` ($${next.fine})` : ""}`
+          : ""}
+      </div>
+      {complaints.incidents.length === 0 ? (
+        <div style={{ fontSize: 13, opacity: 0.7 }}>No complaints yet.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 2, maxHeight: 160, overflow: "auto", fontSize: 12 }}>
+          {complaints.incidents
+            .slice()
+            .reverse()
+            .map((i, n) => (
+              <div key={n} style={{ display: "flex", gap: 6 }}>
+                <span style={{ opacity: 0.6, whiteSpace: "nowrap" }}>
+                  D{i.day} {fmtClock(i.min)}
+                </span>
+                <span>{i.message}</span>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
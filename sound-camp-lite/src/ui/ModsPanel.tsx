@@ -0,0 +1,95 @@
+import { useRef, useState } from "react";
+import {
+  catalogOf,
+  CatalogError,
+  loadedCatalogs,
+  parseCatalogFile,
+  registerCatalog,
+  unregisterCatalog,
+} from "../game/catalog";
+import { installMod, uninstallMod } from "../game/storage";
+import type { PlacedItem } from "../game/types";
+import { styles } from "./styles";
+
+// Installed item catalogs: load a mod JSON file, or remove one that isn't in use
+export function ModsPanel({
+  items,
+  onChange,
+}: {
+  items: PlacedItem[];
+  onChange: (message: string) => void;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load(file: File) {
+    setError(null);
+    try {
+      const mod = parseCatalogFile(await file.text());
+      if (mod.id === "base") throw new CatalogError(`"base" is reserved for the built-in items.`);
+      registerCatalog(mod);
+      await installMod(mod);
+      onChange(`🧩 Loaded ${mod.name ?? mod.id} (${mod.items.length} items)`);
+    } catch (err) {
+      setError(
+        err instanceof CatalogError ? err.message : "Couldn't install that mod."
+      );
+    }
+  }
+
+  async function remove(id: string) {
+    setError(null);
+    unregisterCatalog(id);
+    await uninstallMod(id);
+    onChange(`🧩 Removed ${id}`);
+  }
+
+  return (
+    <div style={{ marginTop: 12, ...styles.card }}>
+      <div style={{ display: "flex", alignItems: "center", marginBottom: 6 }}>
+        <div style={{ fontWeight: 700 }}>Catalogs</div>
+        <button
+          type="button"
+          style={{ ...styles.smallBtn, marginLeft: "auto" }}
+          onClick={() => fileRef.current?.click()}
+          title="Add items from a mod .json file"
+        >
+          Load mod
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            e.target.value = "";
+            if (f) void load(f);
+          }}
+        />
+      </div>
+      {loadedCatalogs().map((c) => {
+        const inUse = items.some((it) => catalogOf(it.defKey) === c.id);
+        return (
+          <div key={c.id} style={{ display: "flex", gap: 6, fontSize: 13, lineHeight: 1.8 }}>
+            <span>
+              {c.name ?? c.id} <span style={{ opacity: 0.6 }}>v{c.version}</span>
+            </span>
+            {c.id !== "base" && (
+              <button
+                type="button"
+                style={{ ...styles.smallBtn, marginLeft: "auto", padding: "0 6px" }}
+                disabled={inUse}
+                title={inUse ? "Remove its items from the map first" : "Uninstall this mod"}
+                onClick={() => void remove(c.id)}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {error && <div style={{ color: "#ff6b6b", fontSize: 12, marginTop: 4 }}>{error}</div>}
+    </div>
+  );
+}
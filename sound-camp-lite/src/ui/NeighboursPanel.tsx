@@ -0,0 +1,23 @@
+import type { BoundaryLevel } from "../game/noise";
+import { styles } from "./styles";
+
+// Noise heard at each neighbour boundary vs. what they'll put up with
+export function NeighboursPanel({ levels }: { levels: BoundaryLevel[] }) {
+  return (
+    <div style={{ ...styles.card, marginBottom: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Neighbours</div>
+      {levels.length === 0 ? (
+        <div style={{ fontSize: 13, opacity: 0.7 }}>Nobody within earshot.</div>
+      ) : (
+        levels.map(({ zone, db, excess }) => (
+          <div key={zone.id} style={{ ...styles.row, fontSize: 13 }}>
+            <span>{zone.name}</span>
+            <b style={{ color: excess > 0 ? "#ff6b6b" : "#37d6cd" }}>
+              {Math.round(db)} / {zone.limitDb} dB
+            </b>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  deleteNamed,
+  duplicateSave,
+  hasSave,
+  listSaves,
+  renameSave,
+  type SaveMeta,
+} from "../game/storage";
+import { fmtClock } from "./format";
+import { styles } from "./styles";
+
+type SortKey = "newest" | "oldest" | "name" | "money" | "day" | "goals";
+
+const SORTS: Record<SortKey, { label: string; cmp: (a: SaveMeta, b: SaveMeta) => number }> = {
+  newest: { label: "Newest", cmp: (a, b) => b.ts - a.ts },
+  oldest: { label: "Oldest", cmp: (a, b) => a.ts - b.ts },
+  name: { label: "Name", cmp: (a, b) => a.name.localeCompare(b.name) },
+  money: { label: "Money", cmp: (a, b) => b.money - a.money },
+  day: { label: "Progress", cmp: (a, b) => b.dayNum - a.dayNum || b.timeMin - a.timeMin },
+  goals: { label: "Goals done", cmp: (a, b) => b.goalsCompleted - a.goalsCompleted },
+};
+
+// Save slot browser: save the current session, load, rename, duplicate, delete
+export function SaveBrowser({
+  onLoad,
+  onSaveCurrent,
+  onClose,
+}: {
+  onLoad: (name: string) => void;
+  onSaveCurrent: (name: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [saves, setSaves] = useState<SaveMeta[] | null>(null);
+  const [sort, setSort] = useState<SortKey>("newest");
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = (err: unknown) => setError((err as Error).message || "That didn't work.");
+
+  async function refresh() {
+    try {
+      setSaves(await listSaves());
+    } catch (err) {
+      report(err);
+    }
+  }
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const sorted = useMemo(
+    () => (saves ? [...saves].sort(SORTS[sort].cmp) : []),
+    [saves, sort]
+  );
+
+  // Wrap an action so failures show inline instead of as alerts
+  async function run(action: () => Promise<void>) {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      report(err);
+    }
+    await refresh();
+  }
+
+  async function saveCurrent() {
+    const name = newName.trim();
+    if (!name) return;
+    await run(async () => {
+      if ((await hasSave(name)) && !confirm(`Overwrite "${name}"?`)) return;
+      await onSaveCurrent(name);
+      setNewName("");
+    });
+  }
+
+  async function commitRename() {
+    if (!renaming) return;
+    const to = renaming.to.trim();
+    if (!to || to === renaming.from) {
+      setRenaming(null);
+      return;
+    }
+    await run(async () => {
+      if (await hasSave(to)) throw new Error(`A save named "${to}" already exists.`);
+      await renameSave(renaming.from, to);
+      setRenaming(null);
+    });
+  }
+
+  async function duplicate(name: string) {
+    await run(async () => {
+      let copy = `${name} (copy)`;
+      for (let n = 2; await hasSave(copy); n++) copy = `${name} (copy ${n})`;
+      await duplicateSave(name, copy);
+    });
+  }
+
+  async function remove(name: string) {
+    if (!confirm(`Delete save "${name}"?`)) return;
+    await run(() => deleteNamed(name));
+  }
+
+  return (
+    <div style={styles.modalBackdrop} onClick={onClose}>
+      <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+          <h3 style={{ ...styles.h3, marginBottom: 0 }}>Saves</h3>
+          <label style={{ marginLeft: "auto", fontSize: 13 }}>
+            Sort{" "}
+            <select
+              style={styles.input}
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SortKey)}
+            >
+              {(Object.keys(SORTS) as SortKey[]).map((k) => (
+                <option key={k} value={k}>
+                  {SORTS[k].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" style={styles.smallBtn} onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <form
+          style={{ display: "flex", gap: 8, marginBottom: 12 }}
+          onSubmit={(e) => {
+            e.preventDefault();
+            void saveCurrent();
+          }}
+        >
+          <input
+            style={{ ...styles.input, flex: 1 }}
+            placeholder="Save current session as…"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <button type="submit" style={styles.smallBtn} disabled={!newName.trim()}>
+            Save
+          </button>
+        </form>
+
+        {error && (
+          <div style={{ color: "#ff6b6b", fontSize: 13, marginBottom: 8 }}>{error}</div>
+        )}
+
+        {saves == null ? (
+          <div style={{ opacity: 0.7 }}>Loading…</div>
+        ) : sorted.length === 0 ? (
+          <div style={{ opacity: 0.7 }}>No manual saves yet.</div>
+        ) : (
+          <div style={{ display: "grid", gap: 8 }}>
+            {sorted.map((s) => (
+              <div key={s.name} style={{ ...styles.card, display: "flex", gap: 12 }}>
+                {s.thumbnail ? (
+                  <img
+                    src={s.thumbnail}
+                    alt=""
+                    width={160}
+                    style={{ borderRadius: 6, border: "1px solid #394184" }}
+                  />
+                ) : (
+                  <div style={{ width: 160, opacity: 0.5, fontSize: 12 }}>No preview</div>
+                )}
+                <div style={{ flex: 1, fontSize: 13, lineHeight: 1.5 }}>
+                  {renaming?.from === s.name ? (
+                    <form
+                      style={{ display: "flex", gap: 6 }}
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        void commitRename();
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        style={{ ...styles.input, flex: 1 }}
+                        value={renaming.to}
+                        onChange={(e) => setRenaming({ ...renaming, to: e.target.value })}
+                      />
+                      <button type="submit" style={styles.smallBtn}>
+                        OK
+                      </button>
+                      <button
+                        type="button"
+                        style={styles.smallBtn}
+                        onClick={() => setRenaming(null)}
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <div style={{ fontWeight: 700 }}>{s.name}</div>
+                  )}
+                  <div>
+                    🕒 Day {s.dayNum} {fmtClock(s.timeMin)} • 💰 {Math.floor(s.money)} • 🎚️{" "}
+                    {s.vibe} • 👥 {Math.round(s.crowd)}
+                  </div>
+                  <div style={{ opacity: 0.8 }}>
+                    Goals {s.goalsCompleted}/{s.goalsTotal} • {new Date(s.ts).toLocaleString()}
+                  </div>
+                  <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                    <button type="button" style={styles.smallBtn} onClick={() => onLoad(s.name)}>
+                      Load
+                    </button>
+                    <button
+                      type="button"
+                      style={styles.smallBtn}
+                      onClick={() => setRenaming({ from: s.name, to: s.name })}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      style={styles.smallBtn}
+                      onClick={() => void duplicate(s.name)}
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      type="button"
+                      style={{ ...styles.smallBtn, color: "#ff6b6b" }}
+                      onClick={() => void remove(s.name)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+// src/ui/draw.ts
+//
+// Canvas drawing shared by the live board, save thumbnails and screenshots.
+
+import { CONGESTION_AT, DEPOT_CAPACITY, GRID_H, GRID_W, ITEM_DEFS, TILE } from "../game/constants";
+import { hasTag, isGenerator } from "../game/catalog";
+import { zoneTiles, type BoundaryLevel } from "../game/noise";
+import type { PlacedItem, PowerModel, Tile, Walkway, Wire } from "../game/types";
+
+// Grid background, walkways, generator auras and wires (everything under the items)
+export function drawBoard(
+  ctx: CanvasRenderingContext2D,
+  items: PlacedItem[],
+  wires: Wire[],
+  powerModel: PowerModel = "wired",
+  walkways: Walkway[] = []
+) {
+  // Background grid
+  ctx.fillStyle = "#0f113b";
+  ctx.fillRect(0, 0, GRID_W * TILE, GRID_H * TILE);
+  ctx.strokeStyle = "#2a2f6d";
+  ctx.lineWidth = 1;
+  for (let x = 0; x <= GRID_W; x++) {
+    ctx.beginPath();
+    ctx.moveTo(x * TILE, 0);
+    ctx.lineTo(x * TILE, GRID_H * TILE);
+    ctx.stroke();
+  }
+  for (let y = 0; y <= GRID_H; y++) {
+    ctx.beginPath();
+    ctx.moveTo(0, y * TILE);
+    ctx.lineTo(GRID_W * TILE, y * TILE);
+    ctx.stroke();
+  }
+
+  // Walkways
+  for (const w of walkways) {
+    ctx.fillStyle = "rgba(200,180,140,0.16)";
+    ctx.fillRect(w.x * TILE, w.y * TILE, w.w * TILE, w.h * TILE);
+    ctx.strokeStyle = "rgba(200,180,140,0.45)";
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(w.x * TILE + 0.5, w.y * TILE + 0.5, w.w * TILE - 1, w.h * TILE - 1);
+    ctx.setLineDash([]);
+    ctx.fillStyle = "rgba(231,235,255,0.5)";
+    ctx.font = "10px system-ui, sans-serif";
+    ctx.fillText(w.name, w.x * TILE + 4, w.y * TILE + 12);
+  }
+
+  // Generator aura: the reach of radius power (hybrid: dashed, it's a top-up)
+  if (powerModel !== "wired") {
+    ctx.fillStyle = `rgba(55,214,205,${powerModel === "radius" ? 0.1 : 0.05})`;
+    ctx.strokeStyle = "rgba(55,214,205,0.4)";
+    ctx.lineWidth = 1;
+    ctx.setLineDash(powerModel === "hybrid" ? [6, 6] : []);
+    for (const it of items) {
+      if (!isGenerator(it.defKey)) continue;
+      const r = (ITEM_DEFS[it.defKey].range ?? 4) * TILE + TILE / 2;
+      ctx.beginPath();
+      ctx.arc(
+        it.x * TILE + TILE / 2,
+        it.y * TILE + TILE / 2,
+        r,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+  }
+
+  // Speaker cones (rotation-driven, see game/cone.ts)
+  ctx.fillStyle = "rgba(255,209,102,0.08)";
+  ctx.strokeStyle = "rgba(255,209,102,0.35)";
+  ctx.lineWidth = 1;
+  for (const it of items) {
+    const def = ITEM_DEFS[it.defKey];
+    if (!def?.coneDeg) continue;
+    const cx = it.x * TILE + TILE / 2;
+    const cy = it.y * TILE + TILE / 2;
+    const r = (def.range ?? 3) * TILE + TILE / 2;
+    const mid = (Math.PI / 180) * it.rot;
+    const half = (Math.PI / 180) * (def.coneDeg / 2);
+    ctx.beginPath();
+    ctx.moveTo(cx, cy);
+    ctx.arc(cx, cy, r, mid - half, mid + half);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  // Wires along their routed paths, waypoints as small handles
+  for (const w of wires) {
+    ctx.globalAlpha = 0.9;
+    drawCablePath(ctx, w.path, "#37d6cd", false, w.gauge === "thick" ? 4 : 2);
+    ctx.globalAlpha = 1.0;
+    ctx.fillStyle = "#37d6cd";
+    for (const p of w.waypoints) {
+      ctx.fillRect(p.x * TILE + TILE / 2 - 4, p.y * TILE + TILE / 2 - 4, 8, 8);
+    }
+  }
+}
+
+export function drawCablePath(
+  ctx: CanvasRenderingContext2D,
+  path: Tile[],
+  color: string,
+  dashed = false,
+  width = 2
+) {
+  if (path.length < 2) return;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = width;
+  ctx.setLineDash(dashed ? [6, 4] : []);
+  ctx.beginPath();
+  path.forEach((p, i) => {
+    const x = p.x * TILE + TILE / 2;
+    const y = p.y * TILE + TILE / 2;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+// Yellow/black warning marks where cables cross walkways
+export function drawTripHazards(ctx: CanvasRenderingContext2D, tiles: Tile[]) {
+  for (const t of tiles) {
+    const cx = t.x * TILE + TILE / 2;
+    const cy = t.y * TILE + TILE / 2;
+    ctx.fillStyle = "#ffd166";
+    ctx.strokeStyle = "#0f113b";
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(cx + 8, cy - 16);
+    ctx.lineTo(cx + 18, cy + 2);
+    ctx.lineTo(cx - 2, cy + 2);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = "#0f113b";
+    ctx.font = "bold 10px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    ctx.fillText("!", cx + 8, cy);
+    ctx.textAlign = "start";
+  }
+}
+
+// Crowd bottlenecks: tiles people keep queueing for, redder the longer the queue
+export function drawCongestion(ctx: CanvasRenderingContext2D, congestion: number[]) {
+  congestion.forEach((c, k) => {
+    if (c < CONGESTION_AT) return;
+    const heat = Math.min(1, c / (CONGESTION_AT * 4));
+    const x = (k % GRID_W) * TILE;
+    const y = Math.floor(k / GRID_W) * TILE;
+    ctx.fillStyle = `rgba(255,107,107,${0.15 + heat * 0.35})`;
+    ctx.fillRect(x, y, TILE, TILE);
+    ctx.strokeStyle = "rgba(255,107,107,0.9)";
+    ctx.setLineDash([4, 3]);
+    ctx.strokeRect(x + 1, y + 1, TILE - 2, TILE - 2);
+    ctx.setLineDash([]);
+  });
+}
+
+// Noise map overlay: quiet tiles stay clear, loud ones go amber → red
+export function drawNoiseMap(ctx: CanvasRenderingContext2D, field: number[][]) {
+  for (let y = 0; y < field.length; y++) {
+    for (let x = 0; x < field[y].length; x++) {
+      const db = field[y][x];
+      if (db < 40) continue;
+      const heat = Math.min(1, (db - 40) / 30);
+      ctx.fillStyle = `rgba(255,${Math.round(209 - heat * 150)},${Math.round(102 - heat * 60)},${0.1 + heat * 0.35})`;
+      ctx.fillRect(x * TILE, y * TILE, TILE, TILE);
+    }
+  }
+}
+
+// Neighbour zones as a strip along the site edge, red while over the limit
+export function drawNeighbours(ctx: CanvasRenderingContext2D, levels: BoundaryLevel[]) {
+  const band = 6;
+  for (const { zone, db, excess } of levels) {
+    ctx.fillStyle = excess > 0 ? "rgba(255,107,107,0.8)" : "rgba(138,163,255,0.45)";
+    const tiles = zoneTiles(zone);
+    for (const t of tiles) {
+      const x = t.x * TILE;
+      const y = t.y * TILE;
+      if (zone.edge === "top") ctx.fillRect(x, y, TILE, band);
+      else if (zone.edge === "bottom") ctx.fillRect(x, y + TILE - band, TILE, band);
+      else if (zone.edge === "left") ctx.fillRect(x, y, band, TILE);
+      else ctx.fillRect(x + TILE - band, y, band, TILE);
+    }
+    if (tiles.length === 0) continue;
+    const first = tiles[0];
+    ctx.fillStyle = "#e7ebff";
+    ctx.font = "11px system-ui, sans-serif";
+    ctx.textAlign = zone.edge === "right" ? "right" : "left";
+    ctx.textBaseline = "top";
+    const lx = zone.edge === "right" ? (first.x + 1) * TILE - band - 2 : first.x * TILE + band + 2;
+    const ly = zone.edge === "bottom" ? first.y * TILE + TILE - band - 14 : first.y * TILE + band + 2;
+    ctx.fillText(`${zone.name} ${Math.round(db)} dB`, lx, ly);
+    ctx.textAlign = "start";
+    ctx.textBaseline = "alphabetic";
+  }
+}
+
+export function drawItem(
+  ctx: CanvasRenderingContext2D,
+  it: PlacedItem,
+  isSelected: boolean,
+  powered: boolean,
+  t: number
+) {
+  const x = it.x * TILE;
+  const y = it.y * TILE;
+
+  // Base outline
+  drawRect(ctx, it.x, it.y, isSelected ? "#37d6cd" : "#8aa3ff");
+
+  const { draw } = ITEM_DEFS[it.defKey];
+  const isMusic = hasTag(it.defKey, "music");
+
+  // Pulsing halo for powered music gear
+  if (isMusic && powered) {
+    const pulse =
+      0.3 + 0.2 * (1 + Math.sin(t * 6.28)); // ~1Hz
+    ctx.save();
+    ctx.globalAlpha = 0.25 + pulse * 0.25;
+    ctx.fillStyle = "#37d6cd";
+    ctx.beginPath();
+    ctx.arc(
+      x + TILE / 2,
+      y + TILE / 2,
+      TILE * (0.7 + 0.05 * Math.sin(t * 3.14)),
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Icon
+  ctx.save();
+  ctx.translate(x + TILE / 2, y + TILE / 2);
+  ctx.rotate((Math.PI / 180) * it.rot);
+  ctx.strokeStyle = "#0f113b";
+  ctx.lineWidth = 2;
+  const fill = draw.fill ?? "#ffffff";
+  ctx.fillStyle = fill;
+
+  if (draw.shape === "speaker") {
+    roundRect(ctx, -12, -16, 24, 32, 4);
+    ctx.fill();
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(18, 0);
+    ctx.strokeStyle = draw.accent ?? "#ffd166";
+    ctx.stroke();
+  } else if (draw.shape === "deck") {
+    roundRect(ctx, -18, -10, 36, 20, 3);
+    ctx.fill();
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(-8, 0, 5, 0, Math.PI * 2);
+    ctx.arc(8, 0, 5, 0, Math.PI * 2);
+    ctx.fillStyle = draw.accent ?? "#0f113b";
+    ctx.fill();
+  } else if (draw.shape === "light") {
+    ctx.beginPath();
+    ctx.moveTo(0, -16);
+    ctx.lineTo(0, 16);
+    ctx.strokeStyle = fill;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(0, -18, 4, 0, Math.PI * 2);
+    ctx.fillStyle = draw.accent ?? "#ffd166";
+    ctx.fill();
+  } else if (draw.shape === "tent") {
+    ctx.beginPath();
+    ctx.moveTo(-16, 12);
+    ctx.lineTo(0, -12);
+    ctx.lineTo(16, 12);
+    ctx.closePath();
+    ctx.fill();
+    ctx.strokeStyle = draw.accent ?? "#0f113b";
+    ctx.stroke();
+  } else if (draw.shape === "generator") {
+    roundRect(ctx, -16, -12, 32, 24, 3);
+    ctx.fill();
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(-8, 0);
+    ctx.lineTo(0, -6);
+    ctx.lineTo(0, 6);
+    ctx.lineTo(8, 0);
+    ctx.strokeStyle = draw.accent ?? "#ff6b6b";
+    ctx.stroke();
+  } else if (draw.shape === "distro") {
+    roundRect(ctx, -12, -12, 24, 24, 3);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = draw.accent ?? "#37d6cd";
+    for (const [sx, sy] of [[-5, -5], [5, -5], [-5, 5], [5, 5]]) {
+      ctx.beginPath();
+      ctx.arc(sx, sy, 2.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  } else if (draw.shape === "tank") {
+    // Horizontal fuel tank on legs, with a gauge showing its stock
+    roundRect(ctx, -17, -10, 34, 18, 9);
+    ctx.fill();
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(-10, 8);
+    ctx.lineTo(-10, 14);
+    ctx.moveTo(10, 8);
+    ctx.lineTo(10, 14);
+    ctx.stroke();
+    ctx.fillStyle = draw.accent ?? "#0f113b";
+    ctx.fillRect(-10, -3, 20 * Math.min(1, (it.stock ?? 0) / DEPOT_CAPACITY), 4);
+    ctx.strokeRect(-10, -3, 20, 4);
+  } else if (draw.shape === "solar") {
+    // Tilted panel split into cells
+    ctx.fillStyle = draw.fill ?? "#2b4c9b";
+    ctx.beginPath();
+    ctx.moveTo(-14, 12);
+    ctx.lineTo(-10, -12);
+    ctx.lineTo(14, -12);
+    ctx.lineTo(18, 12);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.strokeStyle = draw.accent ?? "#8aa3ff";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const f of [1 / 3, 2 / 3]) {
+      ctx.moveTo(-14 + 32 * f, 12);
+      ctx.lineTo(-10 + 24 * f, -12);
+    }
+    ctx.moveTo(-12, 0);
+    ctx.lineTo(16, 0);
+    ctx.stroke();
+  } else if (draw.shape === "battery") {
+    // Battery with terminals and its charge level
+    roundRect(ctx, -15, -10, 30, 20, 3);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = "#0f113b";
+    ctx.fillRect(-9, -14, 5, 4);
+    ctx.fillRect(4, -14, 5, 4);
+    const storage = ITEM_DEFS[it.defKey].storage ?? 0;
+    const level = storage > 0 ? Math.min(1, (it.charge ?? 0) / storage) : 0;
+    ctx.fillStyle = draw.accent ?? "#37d6cd";
+    ctx.fillRect(-11, -6, 22 * level, 12);
+  } else if (draw.shape === "stall") {
+    // Striped awning over a counter, with a gauge showing what's left to sell
+    ctx.fillRect(-15, -4, 30, 16);
+    ctx.strokeRect(-15, -4, 30, 16);
+    for (let i = 0; i < 5; i++) {
+      ctx.fillStyle = i % 2 ? fill : draw.accent ?? "#ffffff";
+      ctx.fillRect(-17 + i * 6.8, -14, 6.8, 8);
+    }
+    ctx.strokeRect(-17, -14, 34, 8);
+    ctx.fillStyle = "#0f113b";
+    const full = ITEM_DEFS[it.defKey].stock ?? 0;
+    ctx.fillRect(-10, 4, 20 * (full > 0 ? Math.min(1, (it.stock ?? 0) / full) : 0), 4);
+    ctx.strokeRect(-10, 4, 20, 4);
+  } else if (draw.shape === "gate") {
+    // Two posts under an arch
+    ctx.fillRect(-16, -10, 6, 24);
+    ctx.strokeRect(-16, -10, 6, 24);
+    ctx.fillRect(10, -10, 6, 24);
+    ctx.strokeRect(10, -10, 6, 24);
+    ctx.beginPath();
+    ctx.arc(0, -6, 13, Math.PI, 0);
+    ctx.strokeStyle = draw.accent ?? "#ffd166";
+    ctx.lineWidth = 4;
+    ctx.stroke();
+  } else {
+    // "box": plain crate for modded items without a dedicated icon
+    roundRect(ctx, -14, -14, 28, 28, 4);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = draw.accent ?? "#0f113b";
+    ctx.font = "bold 14px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(ITEM_DEFS[it.defKey].name.charAt(0).toUpperCase(), 0, 1);
+  }
+
+  ctx.restore();
+
+  // Tripped breaker: red badge in the corner until it's reset
+  if (it.tripped) {
+    ctx.save();
+    ctx.fillStyle = "#ff6b6b";
+    ctx.beginPath();
+    ctx.arc(x + TILE - 8, y + 8, 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = "#0f113b";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x + TILE - 11, y + 5);
+    ctx.lineTo(x + TILE - 5, y + 11);
+    ctx.moveTo(x + TILE - 5, y + 5);
+    ctx.lineTo(x + TILE - 11, y + 11);
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+export function drawRect(
+  ctx: CanvasRenderingContext2D,
+  gx: number,
+  gy: number,
+  color: string
+) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(gx * TILE + 2, gy * TILE + 2, TILE - 4, TILE - 4);
+}
+
+export function roundRect(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  r: number
+) {
+  const rr = Math.min(r, w / 2, h / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + rr, y);
+  ctx.lineTo(x + w - rr, y);
+  ctx.quadraticCurveTo(x + w, y, x + w, y + rr);
+  ctx.lineTo(x + w, y + h - rr);
+  ctx.quadraticCurveTo(x + w, y + h, x + w - rr, y + h);
+  ctx.lineTo(x + rr, y + h);
+  ctx.quadraticCurveTo(x, y + h, x, y + h - rr);
+  ctx.lineTo(x, y + rr);
+  ctx.quadraticCurveTo(x, y, x + rr, y);
+  ctx.closePath();
+}
+
+// Small PNG preview of a layout, drawn with the same code as the live board
+export function renderThumbnail(
+  items: PlacedItem[],
+  wires: Wire[],
+  powerMap: boolean[][],
+  powerModel: PowerModel = "wired",
+  walkways: Walkway[] = [],
+  width = 160
+): string {
+  const full = document.createElement("canvas");
+  full.width = GRID_W * TILE;
+  full.height = GRID_H * TILE;
+  const fctx = full.getContext("2d");
+  if (!fctx) return "";
+  drawBoard(fctx, items, wires, powerModel, walkways);
+  for (const it of items) {
+    drawItem(fctx, it, false, powerMap[it.y]?.[it.x] ?? false, 0);
+  }
+
+  const out = document.createElement("canvas");
+  out.width = width;
+  out.height = Math.round((width * full.height) / full.width);
+  const octx = out.getContext("2d");
+  if (!octx) return "";
+  octx.imageSmoothingQuality = "high";
+  octx.drawImage(full, 0, 0, out.width, out.height);
+  return out.toDataURL("image/png");
+}
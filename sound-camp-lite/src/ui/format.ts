@@ -0,0 +1,9 @@
+// src/ui/format.ts
+
+// Festival clock display (minutes since midnight → HH:MM)
+export function fmtClock(mins: number) {
+  const m = Math.floor(mins % 60);
+  const h = Math.floor((mins / 60) % 24);
+  const z = (n: number) => (n < 10 ? "0" + n : "" + n);
+  return `${z(h)}:${z(m)}`;
+}
@@ -0,0 +1,141 @@
+// src/ui/styles.ts
+import type React from "react";
+
+export const styles: Record<string, React.CSSProperties> = {
+  app: {
+    display: "grid",
+    gridTemplateColumns: "260px 1fr 260px",
+    gap: 12,
+    padding: 12,
+    background: "#0b0e2a",
+    color: "#e7ebff",
+    height: "100dvh",
+    boxSizing: "border-box",
+    fontFamily:
+      "Inter, ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto",
+  },
+  leftBar: {
+    background: "#141a44",
+    border: "1px solid #2b3172",
+    borderRadius: 12,
+    padding: 12,
+    overflow: "auto",
+  },
+  rightBar: {
+    background: "#141a44",
+    border: "1px solid #2b3172",
+    borderRadius: 12,
+    padding: 12,
+    overflow: "auto",
+  },
+  main: {
+    display: "flex",
+    flexDirection: "column",
+    gap: 12,
+  },
+  topBar: {
+    display: "flex",
+    alignItems: "center",
+    gap: 16,
+    padding: "8px 12px",
+    background: "#141a44",
+    border: "1px solid #2b3172",
+    borderRadius: 12,
+  } as React.CSSProperties,
+  canvas: {
+    borderRadius: 12,
+    border: "1px solid #2b3172",
+    imageRendering: "pixelated",
+    cursor: "crosshair",
+    alignSelf: "center",
+  },
+  h3: {
+    margin: 0,
+    marginBottom: 8,
+    fontSize: 14,
+    letterSpacing: 0.4,
+    textTransform: "uppercase",
+    color: "#9fb0ff",
+  },
+  paletteBtn: {
+    width: "100%",
+    textAlign: "left",
+    background: "#1a2257",
+    color: "#e7ebff",
+    border: "1px solid #394184",
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 8,
+    cursor: "pointer",
+  },
+  smallBtn: {
+    background: "#1a2257",
+    color: "#e7ebff",
+    border: "1px solid #394184",
+    borderRadius: 8,
+    padding: "6px 10px",
+    cursor: "pointer",
+  },
+  card: {
+    background: "#1a2257",
+    border: "1px solid #394184",
+    borderRadius: 10,
+    padding: 12,
+  },
+  row: {
+    display: "flex",
+    justifyContent: "space-between",
+    marginTop: 6,
+  },
+  helpOverlay: {
+    position: "absolute",
+    left: 8,
+    top: 8,
+    background: "rgba(10,12,28,0.92)",
+    border: "1px solid #2b3172",
+    borderRadius: 10,
+    padding: 10,
+    color: "#e7ebff",
+    fontSize: 13,
+    maxWidth: 260,
+  },
+  toast: {
+    position: "absolute",
+    left: "50%",
+    top: 16,
+    transform: "translateX(-50%)",
+    background: "rgba(10,12,28,0.95)",
+    border: "1px solid #2b3172",
+    color: "#e7ebff",
+    borderRadius: 10,
+    padding: "8px 12px",
+    fontSize: 14,
+    animation: "fadeOut 2.2s forwards",
+  } as React.CSSProperties,
+  modalBackdrop: {
+    position: "fixed",
+    inset: 0,
+    background: "rgba(5,6,20,0.7)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10,
+  },
+  modal: {
+    background: "#141a44",
+    border: "1px solid #2b3172",
+    borderRadius: 12,
+    padding: 16,
+    width: 640,
+    maxHeight: "80dvh",
+    overflow: "auto",
+    color: "#e7ebff",
+  },
+  input: {
+    background: "#0f113b",
+    color: "#e7ebff",
+    border: "1px solid #394184",
+    borderRadius: 8,
+    padding: "6px 8px",
+  },
+};